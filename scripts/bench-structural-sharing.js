@@ -0,0 +1,52 @@
+/* eslint-disable no-console -- benchmark output */
+/**
+ * Benchmarks structural sharing against structuredClone on a 5k-document list —
+ * the per-push cost of `convexQuery(ref, args, { structuralSharing: true })`.
+ *
+ * Measures two scenarios: an identical push (nothing changed) and a push where a
+ * single document changed. Also reports how many row identities survive.
+ *
+ * Usage: npm run bench (builds dist/ first)
+ */
+import { replaceEqualDeep } from "../dist/sharing.js"
+
+const SIZE = 5_000
+const RUNS = 50
+
+function makeDocs() {
+  return Array.from({ length: SIZE }, (_, i) => ({
+    _id: `k57${i.toString(36).padStart(8, "0")}`,
+    _creationTime: 1_700_000_000_000 + i,
+    text: `Task number ${i}`,
+    isCompleted: i % 3 === 0,
+    tags: ["inbox", i % 2 ? "work" : "home"],
+    meta: { priority: i % 5, assignee: { name: `User ${i % 50}` } },
+  }))
+}
+
+function bench(label, fn) {
+  fn() // warm up
+  const start = performance.now()
+  for (let i = 0; i < RUNS; i++) fn()
+  const ms = (performance.now() - start) / RUNS
+  console.log(`  ${label.padEnd(34)} ${ms.toFixed(2)} ms/push`)
+}
+
+const prev = makeDocs()
+const unchanged = makeDocs()
+const oneChanged = makeDocs()
+oneChanged[1234].isCompleted = !oneChanged[1234].isCompleted
+
+console.log(`${SIZE} documents, ${RUNS} runs each\n`)
+
+console.log("Unchanged push:")
+bench("structuredClone", () => structuredClone(unchanged))
+bench("replaceEqualDeep", () => replaceEqualDeep(prev, unchanged))
+
+console.log("\nOne document changed:")
+bench("structuredClone", () => structuredClone(oneChanged))
+bench("replaceEqualDeep", () => replaceEqualDeep(prev, oneChanged))
+
+const shared = replaceEqualDeep(prev, oneChanged)
+const kept = shared.filter((doc, i) => doc === prev[i]).length
+console.log(`\nRow identities kept after one change: ${kept}/${SIZE} (structuredClone: 0/${SIZE})`)
@@ -1,16 +1,33 @@
 import {
   encodeConvexLoad,
   decodeConvexLoad,
+  encodeConvexPaginatedLoad,
+  decodeConvexPaginatedLoad,
   encodeConvexUser,
   decodeConvexUser,
+  type DetachedQueryOptions,
 } from "$lib/index.js"
 import { api } from "$convex/_generated/api"
 
 export const transport = {
   ConvexLoadResult: {
     encode: (value: unknown) => encodeConvexLoad(value),
-    decode: (encoded: { refName: string; args: Record<string, unknown>; data: unknown }) =>
-      decodeConvexLoad(encoded),
+    decode: (encoded: {
+      refName: string
+      args: Record<string, unknown>
+      data: unknown
+      options?: DetachedQueryOptions
+    }) => decodeConvexLoad(encoded),
+  },
+  ConvexPaginatedLoadResult: {
+    encode: (value: unknown) => encodeConvexPaginatedLoad(value),
+    decode: (encoded: {
+      refName: string
+      args: Record<string, unknown>
+      initialNumItems: number
+      page: unknown[]
+      isDone: boolean
+    }) => decodeConvexPaginatedLoad(encoded),
   },
   ConvexUserResult: {
     encode: (value: unknown) => encodeConvexUser(value),
@@ -7,9 +7,12 @@
  * Call `setupConvexAuth({ authClient })` in the root layout (after `setupConvex()`).
  * Pass `initialToken` from SSR to pre-authenticate the WebSocket before subscriptions fire.
  * Read auth state anywhere via `useConvexAuth()`.
+ *
+ * Also scopes the persisted query cache to the signed-in user (see persist.ts).
  */
 import { createContext } from "svelte"
 import { getConvexClient } from "./client.svelte.js"
+import { setQueryCacheScope } from "./persist.js"
 
 // ============================================================================
 // Types
@@ -58,6 +61,11 @@ export function setupConvexAuth({
 }) {
   const client = getConvexClient()
 
+  // Known signed-in user (token subject) or signed out; otherwise unknown until auth resolves
+  setQueryCacheScope(
+    initialToken === undefined ? null : initialToken ? tokenSubject(initialToken) : "anonymous",
+  )
+
   let sessionData: unknown = $state(null)
   let sessionPending = $state(true)
   let convexAuthed: boolean | null = $state(null)
@@ -81,8 +89,10 @@ export function setupConvexAuth({
     if (!forceRefreshToken) return initialToken ?? null
     try {
       const { data } = await authClient.convex.token()
+      setQueryCacheScope(data?.token ? tokenSubject(data.token) : null)
       return data?.token ?? null
     } catch {
+      setQueryCacheScope(null)
       return null
     }
   }
@@ -107,6 +117,7 @@ export function setupConvexAuth({
     } else if (!sessionPending) {
       client.client.clearAuth()
       convexAuthed = null
+      setQueryCacheScope("anonymous")
     }
 
     return () => {
@@ -132,3 +143,18 @@ export function setupConvexAuth({
 export function useConvexAuth(): ConvexAuthState {
   return getAuthCtx()
 }
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** `sub` claim of a JWT (the user id), or null if it can't be read. */
+function tokenSubject(token: string): string | null {
+  try {
+    const payload = token.split(".")[1]!.replace(/-/g, "+").replace(/_/g, "/")
+    const { sub } = JSON.parse(atob(payload)) as { sub?: unknown }
+    return typeof sub === "string" ? sub : null
+  } catch {
+    return null
+  }
+}
@@ -4,9 +4,15 @@
  * Two init points (both idempotent, share the same instance):
  * - `initConvex(url)` in hooks.client.ts — early init so transport.decode can subscribe
  * - `setupConvex(url)` in root layout — handles SSR (disabled client) + context + cleanup
+ *
+ * `useConvexConnectionState()` exposes the WebSocket state reactively.
+ *
+ * `interceptors` (in either init call's options) run around every mutation and
+ * action made through convexCommand, convexForm, serverMutation and serverAction.
  */
-import { ConvexClient, type ConvexClientOptions } from "convex/browser"
+import { ConvexClient, type ConnectionState, type ConvexClientOptions } from "convex/browser"
 import { createContext } from "svelte"
+import { createSubscriber } from "svelte/reactivity"
 
 // ============================================================================
 // Typesafe context
@@ -14,6 +20,33 @@ import { createContext } from "svelte"
 
 const [getConvexContext, setConvexContext] = createContext<ConvexClient>()
 
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A mutation or action passing through the interceptor chain */
+export interface ConvexCallInfo {
+  /** Convex function name (e.g. `"tasks:create"`) */
+  name: string
+  args: Record<string, unknown>
+  type: "mutation" | "action"
+}
+
+/** Hooks run around every mutation / action, in registration order */
+export interface ConvexInterceptor {
+  onStart?(call: ConvexCallInfo): void
+  onSuccess?(call: ConvexCallInfo & { result: unknown; duration: number }): void
+  onError?(call: ConvexCallInfo & { error: unknown; duration: number }): void
+  /** After success or error — `result` / `error` tell which */
+  onSettled?(call: ConvexCallInfo & { result?: unknown; error?: unknown; duration: number }): void
+}
+
+/** ConvexClient options plus library settings */
+export interface ConvexSetupOptions extends ConvexClientOptions {
+  /** Interceptor chain for mutations and actions (replaces any earlier chain) */
+  interceptors?: ConvexInterceptor[]
+}
+
 // ============================================================================
 // Module-level singleton
 // ============================================================================
@@ -23,18 +56,23 @@ let _url: string | null = null
 
 const IS_BROWSER = typeof globalThis.document !== "undefined"
 
+let _interceptors: ConvexInterceptor[] = []
+
 /**
  * Initialize the Convex client at module level (before any component mounts).
  * Call from `hooks.client.ts` to ensure the client exists before transport.decode.
- * Idempotent — subsequent calls are no-ops.
+ * Idempotent — subsequent calls only update `interceptors` (when given).
+ * Also call it in `hooks.server.ts` so serverMutation / serverAction are intercepted.
  */
-export function initConvex(url: string, options: ConvexClientOptions = {}): ConvexClient {
+export function initConvex(url: string, options: ConvexSetupOptions = {}): ConvexClient {
+  const { interceptors, ...clientOptions } = options
+  if (interceptors) _interceptors = interceptors
   if (_client) return _client
   if (!url || typeof url !== "string") {
     throw new Error("[convex-sveltekit] initConvex requires a non-empty URL string")
   }
   _url = url
-  _client = new ConvexClient(url, { disabled: !IS_BROWSER, ...options })
+  _client = new ConvexClient(url, { disabled: !IS_BROWSER, ...clientOptions })
   return _client
 }
 
@@ -43,7 +81,7 @@ export function initConvex(url: string, options: ConvexClientOptions = {}): Conv
  * Reuses the module-level client if already created (hooks.client.ts ran first),
  * otherwise creates one (SSR path). Sets typesafe context + registers cleanup.
  */
-export function setupConvex(url: string, options: ConvexClientOptions = {}): ConvexClient {
+export function setupConvex(url: string, options: ConvexSetupOptions = {}): ConvexClient {
   const client = initConvex(url, options)
   setConvexContext(client)
   $effect(() => () => client.close())
@@ -76,3 +114,170 @@ export function getConvexUrl(): string {
 export function useConvexClient(): ConvexClient {
   return getConvexContext()
 }
+
+// ============================================================================
+// Interceptors
+// ============================================================================
+
+/**
+ * Run a mutation / action through the interceptor chain.
+ * Internal — used by convexCommand, convexForm and the server helpers.
+ * A throwing interceptor is logged and never fails the call.
+ */
+export async function intercept<T>(call: ConvexCallInfo, run: () => Promise<T>): Promise<T> {
+  const chain = _interceptors
+  if (chain.length === 0) return run()
+
+  const notify = (hook: keyof ConvexInterceptor, info: ConvexCallInfo) => {
+    for (const interceptor of chain) {
+      try {
+        ;(interceptor[hook] as ((info: ConvexCallInfo) => void) | undefined)?.(info)
+      } catch (e) {
+        console.error(`[convex-sveltekit] interceptor ${hook} threw:`, e)
+      }
+    }
+  }
+
+  const started = performance.now()
+  notify("onStart", call)
+  try {
+    const result = await run()
+    const info = { ...call, result, duration: performance.now() - started }
+    notify("onSuccess", info)
+    notify("onSettled", info)
+    return result
+  } catch (error) {
+    const info = { ...call, error, duration: performance.now() - started }
+    notify("onError", info)
+    notify("onSettled", info)
+    throw error
+  }
+}
+
+// ============================================================================
+// Connection state
+// ============================================================================
+
+/** Reactive view of the ConvexClient's WebSocket connection */
+export interface ConvexConnectionState {
+  /** True while the WebSocket is open */
+  readonly isWebSocketConnected: boolean
+  /** True once the WebSocket has connected at least once (false during SSR) */
+  readonly hasEverConnected: boolean
+  /** True while any query, mutation or action awaits a server response */
+  readonly hasInflightRequests: boolean
+  /** Number of mutations awaiting a server response */
+  readonly inflightMutations: number
+  /** Number of actions awaiting a server response */
+  readonly inflightActions: number
+  /** Failed connection attempts — a growing number means an unstable network */
+  readonly connectionRetries: number
+  /** Milliseconds since the last message from the server (null before the first one) */
+  readonly timeSinceLastMessage: number | null
+}
+
+const DISCONNECTED: ConnectionState = {
+  hasInflightRequests: false,
+  isWebSocketConnected: false,
+  timeOfOldestInflightRequest: null,
+  hasEverConnected: false,
+  connectionCount: 0,
+  connectionRetries: 0,
+  inflightMutations: 0,
+  inflightActions: 0,
+}
+
+/** Last time any server message was observed, shared by every connection state reader */
+let _lastMessageAt: number | null = null
+
+/**
+ * Record that the server just sent something. Internal — called on query, paginated
+ * query, mutation and action results. Connection state changes don't count: they
+ * also fire when the socket drops or a request goes out.
+ */
+export function noteServerMessage() {
+  _lastMessageAt = Date.now()
+}
+
+const connectionStates = new WeakMap<ConvexClient, ConvexConnectionState>()
+
+/**
+ * Reactive connection state — e.g. for an "offline / reconnecting" banner.
+ *
+ * ```svelte
+ * <script>
+ *   const connection = useConvexConnectionState()
+ * </script>
+ * {#if connection.hasEverConnected && !connection.isWebSocketConnected}
+ *   <p>Reconnecting…</p>
+ * {/if}
+ * ```
+ *
+ * Uses the client from Svelte context when called under `setupConvex()`, otherwise
+ * the module-level client. Subscribes only while read inside an effect or template.
+ */
+export function useConvexConnectionState(): ConvexConnectionState {
+  let client: ConvexClient
+  try {
+    client = getConvexContext()
+  } catch {
+    // Outside component init or no context — fall back to the module singleton
+    client = getConvexClient()
+  }
+
+  const existing = connectionStates.get(client)
+  if (existing) return existing
+
+  const read = (): ConnectionState => (client.disabled ? DISCONNECTED : client.connectionState())
+
+  let current = read()
+
+  const subscribe = createSubscriber((update) => {
+    current = read()
+    const unsubscribe = client.subscribeToConnectionState((state) => {
+      current = state
+      update()
+    })
+    // Re-render once a second so timeSinceLastMessage keeps counting
+    const ticker = setInterval(update, 1000)
+    return () => {
+      unsubscribe()
+      clearInterval(ticker)
+    }
+  })
+
+  /** Tracked reads go through the subscription; untracked reads get a fresh snapshot. */
+  const state = (): ConnectionState => {
+    if (!$effect.tracking()) return read()
+    subscribe()
+    return current
+  }
+
+  const connection: ConvexConnectionState = {
+    get isWebSocketConnected() {
+      return state().isWebSocketConnected
+    },
+    get hasEverConnected() {
+      return state().hasEverConnected
+    },
+    get hasInflightRequests() {
+      return state().hasInflightRequests
+    },
+    get inflightMutations() {
+      return state().inflightMutations
+    },
+    get inflightActions() {
+      return state().inflightActions
+    },
+    get connectionRetries() {
+      return state().connectionRetries
+    },
+    get timeSinceLastMessage() {
+      state()
+      return _lastMessageAt === null ? null : Date.now() - _lastMessageAt
+    },
+  }
+
+  connectionStates.set(client, connection)
+  return connection
+}
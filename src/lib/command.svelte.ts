@@ -6,16 +6,56 @@
  * const removeTask = convexCommand(api.tasks.remove)
  * await removeTask({ id: task._id })
  * ```
+ *
+ * Per-row state without bookkeeping:
+ * ```svelte
+ * <button disabled={removeTask.pendingFor({ id: task._id })}>×</button>
+ * {#if removeTask.error && removeTask.lastArgs?.id === task._id}{removeTask.error.message}{/if}
+ * ```
+ *
+ * Optimistic updates go through the ConvexClient's local store, so every query
+ * subscriber sees them at once and Convex rolls them back if the mutation fails:
+ * ```ts
+ * const removeTask = convexCommand(api.tasks.remove, {
+ *   optimisticUpdate: (store, { id }) => {
+ *     const tasks = store.getQuery(api.tasks.get, {})
+ *     if (tasks) store.setQuery(api.tasks.get, {}, tasks.filter((t) => t._id !== id))
+ *   },
+ * })
+ * ```
+ *
+ * `queue: true` (or `{ onConflict, onError }`) makes calls durable: they are saved
+ * to IndexedDB, run in order, and replayed on reconnect or reload. See queue.svelte.ts.
+ *
+ * Cancellation — `signal` / `timeout` per command or per call, `cancelAll()` for teardown:
+ * ```ts
+ * const generate = convexCommand(api.ai.generate, { type: "action", timeout: 30_000 })
+ * await generate({ prompt }, { signal: controller.signal }) // rejects with ConvexAbortError
+ * ```
+ * Aborting stops waiting for the result; the Convex function itself still runs to completion.
  */
+import type { OptimisticUpdate } from "convex/browser"
 import type { FunctionReference, FunctionArgs, FunctionReturnType } from "convex/server"
-import { getConvexClient } from "./client.svelte.js"
+import { getFunctionName } from "convex/server"
+import { convexToJson, type Value } from "convex/values"
+import { getConvexClient, intercept, noteServerMessage } from "./client.svelte.js"
+import {
+  enqueueCommand,
+  queuedCommands,
+  registerQueueHandlers,
+  type CommandQueueOptions,
+  type QueuedCommand,
+} from "./queue.svelte.js"
 import type { ConvexQueryResult } from "./query.svelte.js"
 
 export interface ConvexCommand<
   Ref extends FunctionReference<"mutation"> | FunctionReference<"action">,
 > {
   /** Call the mutation/action */
-  (args: FunctionArgs<Ref>): Promise<FunctionReturnType<Ref>> & {
+  (
+    args: FunctionArgs<Ref>,
+    options?: ConvexCallOptions,
+  ): Promise<FunctionReturnType<Ref>> & {
     updates(
       ...queries: Array<
         ConvexQueryResult<FunctionReference<"query">> | { _key: string; release: () => void }
@@ -24,47 +64,170 @@ export interface ConvexCommand<
   }
   /** Number of in-flight executions */
   readonly pending: number
+  /** True while a call with these args (compared by value) is in flight */
+  pendingFor(args: FunctionArgs<Ref>): boolean
+  /** Result of the most recent call, once it succeeded */
+  readonly result: FunctionReturnType<Ref> | undefined
+  /** Error of the most recent call, cleared when the next call starts */
+  readonly error: Error | undefined
+  /** Args of the most recent call */
+  readonly lastArgs: FunctionArgs<Ref> | undefined
+  /** Abort every in-flight call (e.g. on route teardown) */
+  cancelAll(): void
+  /** Calls saved in the durable queue, oldest first (always empty without `queue`) */
+  readonly queued: QueuedCommand[]
+}
+
+export interface ConvexCommandOptions<
+  Ref extends FunctionReference<"mutation"> | FunctionReference<"action">,
+> {
+  /** Function type — defaults to `"mutation"` */
+  type?: "mutation" | "action"
+  /** Optimistic update applied to the ConvexClient's local query store (mutations only) */
+  optimisticUpdate?: OptimisticUpdate<FunctionArgs<Ref>>
+  /**
+   * Durable offline queue. Calls are persisted to IndexedDB, executed one at a time
+   * in order while connected, and replayed after a reload. Pass callbacks to handle
+   * calls that fail during replay.
+   */
+  queue?: boolean | CommandQueueOptions
+  /** Abort every call made while this signal is active */
+  signal?: AbortSignal
+  /** Abort calls that take longer than this many ms */
+  timeout?: number
+}
+
+/** Per-call options — combined with the command's own `signal`, `timeout` overrides it */
+export interface ConvexCallOptions {
+  signal?: AbortSignal
+  timeout?: number
+}
+
+/** Rejection of a call that was aborted, timed out, or cancelled via `cancelAll()` */
+export class ConvexAbortError extends Error {
+  override readonly name = "AbortError"
+
+  constructor(
+    /** What stopped the call */
+    readonly reason: "aborted" | "timeout" | "cancelled",
+    message: string,
+  ) {
+    super(message)
+  }
 }
 
 /**
  * Create a callable command wrapping a Convex mutation or action.
  * Matches SvelteKit's RemoteCommand<Input, Output> pattern.
  *
- * Pass `"action"` as second arg for Convex actions (Node runtime).
+ * Pass `"action"` as second arg for Convex actions (Node runtime),
+ * or an options object (`{ type, optimisticUpdate, queue, signal, timeout }`).
  */
 export function convexCommand<
   Ref extends FunctionReference<"mutation"> | FunctionReference<"action">,
->(ref: Ref, type?: "mutation" | "action"): ConvexCommand<Ref> {
+>(ref: Ref, typeOrOptions?: "mutation" | "action" | ConvexCommandOptions<Ref>): ConvexCommand<Ref> {
   type Output = FunctionReturnType<Ref>
 
+  const {
+    type = "mutation",
+    optimisticUpdate,
+    queue,
+    signal: commandSignal,
+    timeout: commandTimeout,
+  }: ConvexCommandOptions<Ref> = typeof typeOrOptions === "string"
+    ? { type: typeOrOptions }
+    : (typeOrOptions ?? {})
+
+  const name = getFunctionName(ref)
+  if (queue) registerQueueHandlers(name, queue === true ? undefined : queue)
+
   let pendingCount = $state(0)
+  // In-flight calls per args key, for pendingFor()
+  const pendingByArgs: Record<string, number> = $state({})
+  let result: Output | undefined = $state.raw(undefined)
+  let error: Error | undefined = $state.raw(undefined)
+  let lastArgs: FunctionArgs<Ref> | undefined = $state.raw(undefined)
+  // Only the most recent call writes result / error — earlier ones may settle later
+  let latestCall = 0
+  // Abort hooks of in-flight calls, for cancelAll()
+  // eslint-disable-next-line svelte/prefer-svelte-reactivity -- internal registry, not reactive state
+  const inFlight = new Set<(e: ConvexAbortError) => void>()
 
-  const command = ((args: FunctionArgs<Ref>) => {
+  const command = ((args: FunctionArgs<Ref>, callOptions: ConvexCallOptions = {}) => {
+    const call = ++latestCall
+    const key = argsKey(args)
     pendingCount++
+    pendingByArgs[key] = (pendingByArgs[key] ?? 0) + 1
+    lastArgs = $state.snapshot(args) as FunctionArgs<Ref>
+    error = undefined
+
+    const run = async (): Promise<Output> => {
+      if (queue) {
+        return (await enqueueCommand(
+          name,
+          type,
+          args,
+          optimisticUpdate as OptimisticUpdate<Record<string, Value>> | undefined,
+        )) as Output
+      }
+      const client = getConvexClient()
+      const value =
+        type === "action"
+          ? await client.action(ref as FunctionReference<"action">, args)
+          : await client.mutation(ref as FunctionReference<"mutation">, args, {
+              optimisticUpdate,
+            })
+      noteServerMessage()
+      return value as Output
+    }
 
     const promise = (async () => {
       try {
-        const client = getConvexClient()
-        if (type === "action") {
-          return (await client.action(ref as FunctionReference<"action">, args)) as Output
-        }
-        return (await client.mutation(ref as FunctionReference<"mutation">, args)) as Output
+        const send = () =>
+          withAbort(
+            run,
+            [commandSignal, callOptions.signal],
+            callOptions.timeout ?? commandTimeout,
+            inFlight,
+            name,
+          )
+        // Queued calls are intercepted when the queue sends them — not twice, and not
+        // while they wait
+        const value = queue ? await send() : await intercept({ name, args, type }, send)
+        if (call === latestCall) result = value
+        return value
+      } catch (e) {
+        if (call === latestCall) error = e instanceof Error ? e : new Error(String(e))
+        throw e
       } finally {
         pendingCount--
+        if (--pendingByArgs[key]! === 0) delete pendingByArgs[key]
       }
     })() as Promise<Output> & {
       updates: (...queries: unknown[]) => Promise<Output>
     }
 
-    // .updates() — release overrides after mutation completes (Convex auto-updates live queries)
+    // .updates() — overrides stay applied while the command is in flight. On success the
+    // live queries already hold the new data; on failure releasing rolls them back at once.
+    // Each override is its own layer, so concurrent commands on one query don't clobber.
     promise.updates = (...queries: unknown[]) => {
-      return promise.finally(() => {
+      const release = () => {
         for (const q of queries) {
           if (q && typeof q === "object" && "release" in q) {
             ;(q as { release: () => void }).release()
           }
         }
-      }) as Promise<Output> & { updates: (...queries: unknown[]) => Promise<Output> }
+      }
+      return promise.then(
+        (value) => {
+          release()
+          return value
+        },
+        (e) => {
+          release()
+          throw e
+        },
+      ) as Promise<Output> & { updates: (...queries: unknown[]) => Promise<Output> }
     }
 
     return promise
@@ -73,6 +236,83 @@ export function convexCommand<
   Object.defineProperty(command, "pending", {
     get: () => pendingCount,
   })
+  Object.defineProperty(command, "queued", {
+    get: () => (queue ? queuedCommands(name) : []),
+  })
+  Object.defineProperty(command, "pendingFor", {
+    value: (args: FunctionArgs<Ref>) => (pendingByArgs[argsKey(args)] ?? 0) > 0,
+  })
+  Object.defineProperty(command, "result", { get: () => result })
+  Object.defineProperty(command, "error", { get: () => error })
+  Object.defineProperty(command, "lastArgs", { get: () => lastArgs })
+  Object.defineProperty(command, "cancelAll", {
+    value: () => {
+      for (const abort of [...inFlight]) {
+        abort(new ConvexAbortError("cancelled", `[convexCommand] ${name} was cancelled`))
+      }
+    },
+  })
 
   return command
 }
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Run `start()` unless a signal is already aborted, and reject as soon as a signal
+ * aborts, the timeout passes, or `cancelAll()` fires. A result arriving after that
+ * is dropped — the returned promise has already settled.
+ */
+function withAbort<T>(
+  start: () => Promise<T>,
+  signals: Array<AbortSignal | undefined>,
+  timeout: number | undefined,
+  inFlight: Set<(e: ConvexAbortError) => void>,
+  name: string,
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const onAbort = () =>
+      fail(new ConvexAbortError("aborted", `[convexCommand] ${name} was aborted`))
+    const cleanup = () => {
+      clearTimeout(timer)
+      for (const signal of signals) signal?.removeEventListener("abort", onAbort)
+      inFlight.delete(fail)
+    }
+    function fail(e: ConvexAbortError) {
+      cleanup()
+      reject(e)
+    }
+
+    if (signals.some((signal) => signal?.aborted)) return onAbort()
+    for (const signal of signals) signal?.addEventListener("abort", onAbort, { once: true })
+    if (timeout !== undefined) {
+      timer = setTimeout(
+        () =>
+          fail(
+            new ConvexAbortError("timeout", `[convexCommand] ${name} timed out after ${timeout}ms`),
+          ),
+        timeout,
+      )
+    }
+    inFlight.add(fail)
+
+    start().then(
+      (value) => {
+        cleanup()
+        resolve(value)
+      },
+      (e) => {
+        cleanup()
+        reject(e)
+      },
+    )
+  })
+}
+
+/** Args compared by value — same serialization as the query store keys */
+function argsKey(args: unknown): string {
+  return JSON.stringify(convexToJson($state.snapshot(args) as never))
+}
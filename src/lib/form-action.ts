@@ -0,0 +1,76 @@
+/**
+ * convexFormAction() — SvelteKit form action counterpart of convexForm().
+ *
+ * Handles submits that arrive before hydration or with JS disabled. Parses the
+ * same `n:` / `b:` field names as the client form, validates with the same
+ * schema, and runs the mutation through serverMutation (auth-aware).
+ *
+ * Usage:
+ * ```ts
+ * // +page.server.ts
+ * export const actions = { default: convexFormAction(schema, api.tasks.create) }
+ *
+ * // +page.svelte
+ * let { form } = $props()
+ * const createTask = convexForm(schema, api.tasks.create).hydrate(form)
+ * ```
+ *
+ * Issues (schema or `ConvexError`) come back with `fail(400)` and hydrate into
+ * `fields.*.issues()`. File inputs are not uploaded on this path.
+ */
+import { fail, type ActionFailure } from "@sveltejs/kit"
+import type { FunctionArgs, FunctionReference } from "convex/server"
+import { getFunctionName } from "convex/server"
+import {
+  convertFormData,
+  normalizeIssue,
+  replaceFiles,
+  serverIssues,
+  type ConvexFormActionData,
+  type StandardSchema,
+} from "./form.svelte.js"
+import { serverMutation } from "./server.js"
+
+/**
+ * Create a form action that validates the submitted form and runs the mutation.
+ *
+ * @param schema — the schema passed to convexForm()
+ * @param mutationRef — the mutation passed to convexForm()
+ * @param mapArgs — same transform as convexForm()'s `mapArgs`
+ */
+export function convexFormAction<
+  Input extends Record<string, unknown>,
+  Mutation extends FunctionReference<"mutation">,
+>(
+  schema: StandardSchema<Input>,
+  mutationRef: Mutation,
+  mapArgs?: (data: Input) => FunctionArgs<Mutation>,
+): (event: {
+  request: Request
+}) => Promise<
+  { convexForm: ConvexFormActionData } | ActionFailure<{ convexForm: ConvexFormActionData }>
+> {
+  const mutation = getFunctionName(mutationRef)
+
+  return async ({ request }) => {
+    const data = convertFormData(await request.formData()) as Input
+    // Files can't be echoed back through action data
+    const input = replaceFiles(data, new Map()) as Record<string, unknown>
+
+    const validated = await schema["~standard"].validate(data)
+    if (validated?.issues) {
+      const issues = validated.issues.map((i) => normalizeIssue(i))
+      return fail(400, { convexForm: { mutation, issues, input } })
+    }
+
+    try {
+      const args = mapArgs ? mapArgs(data) : (data as unknown as FunctionArgs<Mutation>)
+      const result = await serverMutation(mutationRef, args)
+      return { convexForm: { mutation, result } }
+    } catch (e) {
+      const issues = serverIssues(e)
+      if (!issues) throw e
+      return fail(400, { convexForm: { mutation, issues, input } })
+    }
+  }
+}
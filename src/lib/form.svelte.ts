@@ -15,8 +15,33 @@
  *   <button disabled={!!createTask.pending}>Create</button>
  * </form>
  * ```
+ *
+ * Server-side validation: a mutation that throws `ConvexError({ issues: [{ path, message }] })`
+ * (or `ConvexError("message")`) fills the form's issues with `server: true` instead of
+ * failing the submit — shown through `fields.x.issues()` like preflight issues.
+ *
+ * No-JS fallback: pair with `convexFormAction()` in +page.server.ts and call
+ * `.hydrate(form)` with the page's action data to show its issues and values.
+ *
+ * Edit forms: `initial` (a value or a live ConvexQueryResult) fills the fields,
+ * `dirty` / `fields.x.dirty()` compare against it and `reset()` restores it. An
+ * untouched form follows the live data.
+ * With `autosave`, edits are validated and their changed fields saved after a pause,
+ * one save at a time — no submit, no reset.
+ *
+ * Drafts: `persist: "session" | "local"` keeps unsent input in web storage (per
+ * mutation and `.for()` key) and restores it when the form is attached.
+ *
+ * Lifecycle: `status` moves idle → validating → submitting → success | error. Pass
+ * `onSuccess` / `onError` to react to the outcome without rewriting the flow via `enhance()`.
+ *
+ * File uploads: pass `generateUploadUrl` and every `File` in the form data is uploaded
+ * to Convex storage first, then replaced by its `Id<"_storage">` in the mutation args.
  */
+import type { OptimisticUpdate } from "convex/browser"
 import type { FunctionReference, FunctionArgs, FunctionReturnType } from "convex/server"
+import { getFunctionName } from "convex/server"
+import { ConvexError } from "convex/values"
 import { createAttachmentKey } from "svelte/attachments"
 
 // Minimal Standard Schema V1 interface (avoids @standard-schema/spec dependency)
@@ -29,26 +54,30 @@ interface SchemaResult {
   issues?: readonly SchemaIssue[]
 }
 
-interface StandardSchema<Input = unknown> {
+export interface StandardSchema<Input = unknown> {
   "~standard": {
     types?: { input: Input; output: unknown }
     validate(value: unknown): Promise<SchemaResult | undefined> | SchemaResult | undefined
   }
 }
-import { tick } from "svelte"
-import { getConvexClient } from "./client.svelte.js"
+import { tick, untrack } from "svelte"
+import { getConvexClient, intercept, noteServerMessage } from "./client.svelte.js"
+import type { ConvexQueryResult } from "./query.svelte.js"
 
 // ============================================================================
 // Types
 // ============================================================================
 
-interface FormIssue {
+export interface FormIssue {
   message: string
   path: Array<string | number>
   name: string
   server: boolean
 }
 
+/** Where the last submit is in its lifecycle */
+export type ConvexFormStatus = "idle" | "validating" | "submitting" | "success" | "error"
+
 /** Matches SvelteKit's RemoteForm API surface */
 export interface ConvexForm<
   Input extends Record<string, unknown>,
@@ -64,12 +93,31 @@ export interface ConvexForm<
   readonly result: Output | undefined
   /** Number of in-flight mutations */
   readonly pending: number
+  /** True when the fields differ from the initial values */
+  readonly dirty: boolean
+  /** True once any field has been edited */
+  readonly touched: boolean
+  /** True once the form has been submitted (until `reset()`) */
+  readonly submitted: boolean
+  /** Lifecycle of the last submit — `"error"` for issues as well as thrown errors */
+  readonly status: ConvexFormStatus
+  /** What the last submit or autosave threw (network failure, unexpected server error) — not field issues */
+  readonly error: unknown
+  /** True while an autosave is in flight */
+  readonly saving: boolean
+  /** When the last autosave succeeded */
+  readonly savedAt: Date | undefined
 
+  /** Restore the initial values and clear issues */
+  reset(): void
   /** Attach a Zod/Standard schema for client-side preflight validation */
   preflight(schema: StandardSchema<Input>): ConvexForm<Input, Output>
-  /** Validate form contents programmatically */
+  /** Validate form contents programmatically — `preflightOnly` skips `validateWith()` checks */
   validate(options?: { includeUntouched?: boolean; preflightOnly?: boolean }): Promise<void>
-  /** Customize the submit lifecycle */
+  /**
+   * Customize the submit lifecycle. `submit()` resolves with `undefined` when the
+   * server answered with issues (see module docs) — check `fields.allIssues()`.
+   */
   enhance(
     callback: (opts: {
       form: HTMLFormElement
@@ -77,10 +125,108 @@ export interface ConvexForm<
       submit: () => Promise<Output>
     }) => void | Promise<void>,
   ): { method: "POST"; [key: symbol]: (node: HTMLFormElement) => void }
+  /**
+   * Show the outcome of a no-JS submit handled by `convexFormAction()`: pass the
+   * page's `form` prop. Issues and submitted values are restored. Returns the form.
+   */
+  hydrate(actionData: unknown): ConvexForm<Input, Output>
   /** Create a parameterized form instance (for lists) */
   for(id: string | number): Omit<ConvexForm<Input, Output>, "for">
 }
 
+/** convexForm() split into steps — see convexWizard() */
+export interface ConvexWizard<
+  Input extends Record<string, unknown>,
+  Output = FunctionReturnType<FunctionReference<"mutation">>,
+> extends Omit<ConvexForm<Input, Output>, "for"> {
+  /** Index of the current step */
+  readonly step: number
+  /** True when the current step's fields are valid (and no async check is pending) */
+  readonly canAdvance: boolean
+  /** Validate the current step and move on. Resolves `false` when it stays put. */
+  next(): Promise<boolean>
+  /** Go back one step, keeping everything entered so far */
+  back(): void
+  /** Create a parameterized wizard instance */
+  for(id: string | number): Omit<ConvexWizard<Input, Output>, "for">
+}
+
+/** Options for convexForm() — pass a function instead as shorthand for `{ mapArgs }` */
+export interface ConvexFormOptions<Input, Mutation extends FunctionReference<"mutation">> {
+  /** Transform form data into mutation args (identity by default) */
+  mapArgs?: (data: Input) => FunctionArgs<Mutation>
+  /** Optimistic update applied to the ConvexClient's local query store while the mutation runs */
+  optimisticUpdate?: OptimisticUpdate<FunctionArgs<Mutation>>
+  /**
+   * Mutation returning a Convex storage upload URL (`ctx.storage.generateUploadUrl()`).
+   * Files in the form are uploaded before the mutation runs and replaced by storage Ids.
+   */
+  generateUploadUrl?: FunctionReference<"mutation", "public", Record<string, never>, string>
+  /**
+   * Form action that handles submits before hydration / without JS, e.g. `"?/create"`.
+   * Not needed for a `default` action (see convexFormAction).
+   */
+  action?: string
+  /**
+   * Initial field values for edit forms: a value, a live query result (`.data` is
+   * used), or a function (receives the `.for()` key). Untouched forms follow updates.
+   */
+  initial?:
+    | Partial<Input>
+    | ConvexQueryResult<FunctionReference<"query">>
+    | ((key?: string | number) => Partial<Input> | undefined)
+  /** Send only fields that differ from `initial` (plus `id` / `_id`) — for patch mutations */
+  changedOnly?: boolean
+  /**
+   * Save edits without a submit: valid changes are sent (changed fields only) once
+   * edits pause for `debounce` ms (default: 800). Pair with `initial`.
+   */
+  autosave?: boolean | { debounce?: number }
+  /**
+   * Keep a draft of the fields in sessionStorage / localStorage until a successful
+   * submit. Files, password inputs and inputs marked `data-sensitive` are left out.
+   */
+  persist?: "session" | "local"
+  /** Called after a submit succeeded (and the default reset ran) — redirect, toast, etc. */
+  onSuccess?: (
+    result: FunctionReturnType<Mutation>,
+    opts: { form: HTMLFormElement; data: Input },
+  ) => void | Promise<void>
+  /** Called when a submit throws. Without it the error is logged. Field issues are not errors. */
+  onError?: (error: unknown) => void
+}
+
+/** Options for `fields.x.validateWith()` */
+export interface FieldValidatorOptions<Value = unknown> {
+  /** Query args for the field value (default: `{ [field name]: value }`) */
+  args?: (value: Value) => Record<string, unknown>
+  /** Wait this long after the last edit before checking (default: 300 ms) */
+  debounce?: number
+  /** Issue message when the query returns `false` (default: "Invalid value") */
+  message?: string
+}
+
+/**
+ * Query backing `fields.x.validateWith()`: `true` / `null` when the value is valid,
+ * `false` or an issue message when it isn't.
+ */
+export type FieldValidatorQuery = FunctionReference<
+  "query",
+  "public",
+  Record<string, unknown>,
+  boolean | string | null
+>
+
+/** Payload `convexFormAction()` returns under `convexForm` — read back by `.hydrate()` */
+export interface ConvexFormActionData {
+  /** Mutation function name — a form only hydrates from its own mutation */
+  mutation: string
+  issues?: FormIssue[]
+  /** Submitted values (files removed), restored into the fields */
+  input?: Record<string, unknown>
+  result?: unknown
+}
+
 /**
  * Form fields type matching SvelteKit's RemoteFormFields.
  * At runtime, backed by Proxy — any property access returns a ConvexFormField.
@@ -88,9 +234,13 @@ export interface ConvexForm<
  */
 type ConvexFormFields<T> = {
   // Known fields from schema — required, no `undefined`
-  [K in keyof T]-?: ConvexFormField<T[K]>
+  [K in keyof T]-?: ConvexFormFieldOf<T[K]>
 } & ConvexFormFieldContainer
 
+/** A field, plus array helpers and item access for array fields */
+type ConvexFormFieldOf<T> = ConvexFormField<T> &
+  (NonNullable<T> extends ReadonlyArray<infer Item> ? ConvexFormArrayField<Item> : unknown)
+
 interface ConvexFormFieldContainer {
   allIssues(): Array<{ message: string; path: Array<string | number> }> | undefined
 }
@@ -100,13 +250,50 @@ interface ConvexFormField<_T = unknown> extends ConvexFormFieldContainer {
   issues(): Array<{ message: string; path: Array<string | number> }> | undefined
   value(): _T
   set(value: _T): _T
+  /** Upload progress of this field's files (0–1), undefined before the first upload */
+  progress(): number | undefined
+  /** True when this field differs from its initial value */
+  dirty(): boolean
+  /** True once this field (or one nested in it) has been edited */
+  touched(): boolean
+  /**
+   * Check this field with a Convex query after each edit (debounced). Its issues show
+   * up in `issues()`, and submits wait for pending checks. Call once, at setup.
+   */
+  validateWith(query: FieldValidatorQuery, options?: FieldValidatorOptions<_T>): void
+  /** True while a `validateWith()` check for this field is pending */
+  validating(): boolean
+}
+
+/**
+ * Helpers for repeating groups. Keys, touched state and issues move with their items.
+ *
+ * ```svelte
+ * {#each form.fields.items.keys() as key, i (key)}
+ *   <input {...form.fields.items[i].name.as("text")} />
+ *   <button type="button" onclick={() => form.fields.items.remove(i)}>Remove</button>
+ * {/each}
+ * ```
+ */
+interface ConvexFormArrayField<Item> {
+  readonly [index: number]: Item extends Record<string, unknown>
+    ? ConvexFormFields<Item> & ConvexFormField<Item>
+    : ConvexFormFieldOf<Item>
+  /** Number of items */
+  length(): number
+  /** Stable per-item keys for keyed `{#each}` blocks */
+  keys(): number[]
+  push(item: Item): void
+  remove(index: number): void
+  move(from: number, to: number): void
 }
 
 // ============================================================================
 // Form utilities (adapted from SvelteKit's form-utils.js)
 // ============================================================================
 
-function convertFormData(data: FormData): Record<string, unknown> {
+/** Internal — shared with convexFormAction() so both sides parse `n:` / `b:` names alike */
+export function convertFormData(data: FormData): Record<string, unknown> {
   const result: Record<string, unknown> = {}
   for (let key of data.keys()) {
     const isArray = key.endsWith("[]")
@@ -179,7 +366,7 @@ function buildPathString(path: (string | number)[]): string {
   return result
 }
 
-function normalizeIssue(issue: { message: string; path?: readonly unknown[] }): FormIssue {
+export function normalizeIssue(issue: { message: string; path?: readonly unknown[] }): FormIssue {
   const normalized: FormIssue = { name: "", path: [], message: issue.message, server: false }
   if (issue.path) {
     let name = ""
@@ -193,44 +380,214 @@ function normalizeIssue(issue: { message: string; path?: readonly unknown[] }):
   return normalized
 }
 
+/**
+ * Form issues carried by a mutation's ConvexError: `{ issues: [{ path, message }] }`,
+ * `{ message }` or a plain string. Undefined for any other error.
+ */
+export function serverIssues(error: unknown): FormIssue[] | undefined {
+  if (!(error instanceof ConvexError)) return undefined
+  const data: unknown = error.data
+  const raw: unknown[] | undefined =
+    typeof data === "string"
+      ? [{ message: data }]
+      : isRecord(data) && Array.isArray(data.issues)
+        ? data.issues
+        : isRecord(data) && typeof data.message === "string"
+          ? [{ message: data.message }]
+          : undefined
+
+  return raw?.filter(isRecord).map((issue) => ({
+    ...normalizeIssue({
+      message: String(issue.message ?? ""),
+      path: Array.isArray(issue.path)
+        ? issue.path
+        : typeof issue.path === "string"
+          ? [issue.path]
+          : undefined,
+    }),
+    server: true,
+  }))
+}
+
+/**
+ * Field value equality for dirty tracking. Blank values (`undefined`, `""`) are
+ * equal — an empty input and a missing key mean the same thing.
+ */
+function valuesEqual(a: unknown, b: unknown): boolean {
+  const blank = (v: unknown) => v === undefined || v === ""
+  if (blank(a) && blank(b)) return true
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => valuesEqual(item, b[i]))
+  }
+  if (isRecord(a) && isRecord(b) && !(a instanceof Blob) && !(b instanceof Blob)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+    return [...keys].every((key) => valuesEqual(a[key], b[key]))
+  }
+  return Object.is(a, b)
+}
+
+/**
+ * Re-key entries named `prefix[i]…` after an array edit: `moved[i]` is the item's new
+ * index, or undefined when it was removed (its entries are dropped).
+ */
+function remapArrayEntries<T>(
+  record: Record<string, T>,
+  prefix: string,
+  moved: (number | undefined)[],
+): Record<string, T> {
+  const out: Record<string, T> = {}
+  for (const [name, value] of Object.entries(record)) {
+    const match = name.startsWith(`${prefix}[`)
+      ? /^(\d+)\](.*)$/.exec(name.slice(prefix.length + 1))
+      : null
+    if (!match) {
+      out[name] = value
+      continue
+    }
+    const to = moved[Number(match[1])]
+    if (to !== undefined) out[`${prefix}[${to}]${match[2]}`] = value
+  }
+  return out
+}
+
+function isQueryResult(value: unknown): value is ConvexQueryResult<FunctionReference<"query">> {
+  return isRecord(value) && "data" in value && "isLoading" in value
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+// ============================================================================
+// File uploads (Convex storage)
+// ============================================================================
+
+type FileEntry = {
+  file: File
+  /** Path of the field holding the file (array indices dropped) */
+  fieldPath: Array<string | number>
+  /** Field key for progress and issues, e.g. `"avatar"` */
+  field: string
+}
+
+function collectFiles(value: unknown, path: Array<string | number> = []): FileEntry[] {
+  if (typeof File !== "undefined" && value instanceof File) {
+    let end = path.length
+    while (end > 0 && typeof path[end - 1] === "number") end--
+    const fieldPath = path.slice(0, end)
+    return [{ file: value, fieldPath, field: buildPathString(fieldPath) }]
+  }
+  if (Array.isArray(value)) return value.flatMap((item, i) => collectFiles(item, [...path, i]))
+  if (isRecord(value)) {
+    return Object.entries(value).flatMap(([key, item]) => collectFiles(item, [...path, key]))
+  }
+  return []
+}
+
+export function replaceFiles(value: unknown, ids: Map<File, string>): unknown {
+  if (typeof File !== "undefined" && value instanceof File) return ids.get(value)
+  if (Array.isArray(value)) return value.map((item) => replaceFiles(item, ids))
+  if (isRecord(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, replaceFiles(item, ids)]),
+    )
+  }
+  return value
+}
+
+/** POST a file to a Convex upload URL — XHR rather than fetch for upload progress. */
+function uploadFile(url: string, file: File, onProgress: (bytes: number) => void): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    xhr.open("POST", url)
+    if (file.type) xhr.setRequestHeader("Content-Type", file.type)
+    xhr.upload.onprogress = (event) => onProgress(event.loaded)
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new Error(`upload failed (${xhr.status})`))
+        return
+      }
+      try {
+        onProgress(file.size)
+        resolve((JSON.parse(xhr.responseText) as { storageId: string }).storageId)
+      } catch {
+        reject(new Error("unexpected upload response"))
+      }
+    }
+    xhr.onerror = () => reject(new Error("upload failed (network error)"))
+    xhr.send(file)
+  })
+}
+
 // ============================================================================
 // Field proxy (adapted from SvelteKit's create_field_proxy)
 // ============================================================================
 
+/** What the field proxy reads from / writes to its form instance */
+interface FieldContext {
+  getInput: () => Record<string, unknown>
+  setInput: (path: (string | number)[], value: unknown) => void
+  getIssues: () => Record<string, FormIssue[]>
+  /** Upload progress (0–1) per field key, while files are uploading */
+  getProgress: () => Record<string, number>
+  /** Values the form started from (see `initial`) */
+  getInitial: () => Record<string, unknown>
+  /** Edited fields, by path string */
+  getTouched: () => Record<string, boolean>
+  /** Stable keys for the items of the array at `path` */
+  arrayKeys: (path: (string | number)[]) => number[]
+  /** Rebuild the array at `path` from old indices (`-1` takes the next of `added`) */
+  editArray: (path: (string | number)[], order: number[], added?: unknown[]) => void
+  /** Register an async check for the field at `path` */
+  validateWith: (
+    path: (string | number)[],
+    query: FieldValidatorQuery,
+    options: FieldValidatorOptions,
+  ) => void
+  /** Fields with a pending async check, by path string */
+  getValidating: () => Record<string, boolean>
+}
+
+/** A `validateWith()` registration */
+interface AsyncCheck {
+  path: (string | number)[]
+  query: FieldValidatorQuery
+  options: FieldValidatorOptions
+  timer?: ReturnType<typeof setTimeout>
+  /** Bumped on every edit — results of older checks are ignored */
+  version: number
+  running?: Promise<void>
+}
+
 function createFieldProxy(
   target: unknown,
-  getInput: () => Record<string, unknown>,
-  setInput: (path: (string | number)[], value: unknown) => void,
-  getIssues: () => Record<string, FormIssue[]>,
+  ctx: FieldContext,
   path: (string | number)[] = [],
 ): unknown {
-  const getValue = () => deepGet(getInput(), path)
+  const getValue = () => deepGet(ctx.getInput(), path)
 
   return new Proxy(target as object, {
     get(_target, prop) {
       if (typeof prop === "symbol") return (target as Record<symbol, unknown>)[prop]
       if (/^\d+$/.test(prop as string)) {
-        return createFieldProxy({}, getInput, setInput, getIssues, [
-          ...path,
-          parseInt(prop as string, 10),
-        ])
+        return createFieldProxy({}, ctx, [...path, parseInt(prop as string, 10)])
       }
 
       const key = buildPathString(path)
 
       if (prop === "set") {
         const setFn = (newValue: unknown) => {
-          setInput(path, newValue)
+          ctx.setInput(path, newValue)
           return newValue
         }
-        return createFieldProxy(setFn, getInput, setInput, getIssues, [...path, prop])
+        return createFieldProxy(setFn, ctx, [...path, prop])
       }
       if (prop === "value") {
-        return createFieldProxy(getValue, getInput, setInput, getIssues, [...path, prop])
+        return createFieldProxy(getValue, ctx, [...path, prop])
       }
       if (prop === "issues" || prop === "allIssues") {
         const issuesFn = () => {
-          const allIssues = getIssues()[key === "" ? "$" : key]
+          const allIssues = ctx.getIssues()[key === "" ? "$" : key]
           if (prop === "allIssues") {
             return allIssues?.map((i) => ({ path: i.path, message: i.message }))
           }
@@ -238,7 +595,55 @@ function createFieldProxy(
             ?.filter((i) => i.name === key)
             ?.map((i) => ({ path: i.path, message: i.message }))
         }
-        return createFieldProxy(issuesFn, getInput, setInput, getIssues, [...path, prop])
+        return createFieldProxy(issuesFn, ctx, [...path, prop])
+      }
+      if (prop === "dirty") {
+        const dirtyFn = () => !valuesEqual(getValue(), deepGet(ctx.getInitial(), path))
+        return createFieldProxy(dirtyFn, ctx, [...path, prop])
+      }
+      if (prop === "touched") {
+        const touchedFn = () =>
+          Object.keys(ctx.getTouched()).some(
+            (name) => name === key || name.startsWith(`${key}.`) || name.startsWith(`${key}[`),
+          )
+        return createFieldProxy(touchedFn, ctx, [...path, prop])
+      }
+      if (prop === "validateWith") {
+        const validateWithFn = (query: FieldValidatorQuery, options: FieldValidatorOptions = {}) =>
+          ctx.validateWith(path, query, options)
+        return createFieldProxy(validateWithFn, ctx, [...path, prop])
+      }
+      if (prop === "validating") {
+        const validatingFn = () => ctx.getValidating()[key] === true
+        return createFieldProxy(validatingFn, ctx, [...path, prop])
+      }
+      if (prop === "length") {
+        const lengthFn = () => {
+          const value = getValue()
+          return Array.isArray(value) ? value.length : 0
+        }
+        return createFieldProxy(lengthFn, ctx, [...path, prop])
+      }
+      if (prop === "keys") {
+        const keysFn = () => ctx.arrayKeys(path)
+        return createFieldProxy(keysFn, ctx, [...path, prop])
+      }
+      if (prop === "push" || prop === "remove" || prop === "move") {
+        const indices = () => ctx.arrayKeys(path).map((_, i) => i)
+        const editFn = (a: unknown, b?: number) => {
+          const order = indices()
+          if (prop === "push") return ctx.editArray(path, [...order, -1], [a])
+          if (prop === "remove") return ctx.editArray(path, order.toSpliced(a as number, 1))
+          const [item] = order.splice(a as number, 1)
+          if (item === undefined) return
+          order.splice(b!, 0, item)
+          ctx.editArray(path, order)
+        }
+        return createFieldProxy(editFn, ctx, [...path, prop])
+      }
+      if (prop === "progress") {
+        const progressFn = () => ctx.getProgress()[key]
+        return createFieldProxy(progressFn, ctx, [...path, prop])
       }
       if (prop === "as") {
         const asFn = (type: string, inputValue?: string) => {
@@ -256,7 +661,7 @@ function createFieldProxy(
           const baseProps: Record<string, unknown> = {
             name: prefix + key + (isArray ? "[]" : ""),
             get "aria-invalid"() {
-              return key in getIssues() ? "true" : undefined
+              return key in ctx.getIssues() ? "true" : undefined
             },
           }
 
@@ -303,11 +708,11 @@ function createFieldProxy(
             },
           })
         }
-        return createFieldProxy(asFn, getInput, setInput, getIssues, [...path, "as"])
+        return createFieldProxy(asFn, ctx, [...path, "as"])
       }
 
       // Nested field access
-      return createFieldProxy({}, getInput, setInput, getIssues, [...path, prop])
+      return createFieldProxy({}, ctx, [...path, prop])
     },
   })
 }
@@ -322,7 +727,7 @@ function createFieldProxy(
  *
  * @param schema — Zod or Standard Schema for client-side validation
  * @param mutationRef — Convex mutation FunctionReference (e.g. api.tasks.create)
- * @param mapArgs — Optional transform from form data to mutation args (identity by default)
+ * @param options — `{ mapArgs, optimisticUpdate, initial, onSuccess, ... }`, or a mapArgs function
  */
 /** Extract the input type from a Standard Schema */
 type InferInput<S> = S extends StandardSchema<infer I> ? I : Record<string, unknown>
@@ -334,10 +739,39 @@ export function convexForm<
 >(
   schema: Schema,
   mutationRef: Mutation,
-  mapArgs?: (data: Input) => FunctionArgs<Mutation>,
+  options?: ConvexFormOptions<Input, Mutation> | ((data: Input) => FunctionArgs<Mutation>),
+): ConvexForm<Input, FunctionReturnType<Mutation>> {
+  return createForm<Input, Mutation>(schema, mutationRef, options)
+}
+
+/** Shared by convexForm() and convexWizard() — `steps` adds the wizard API */
+function createForm<
+  Input extends Record<string, unknown>,
+  Mutation extends FunctionReference<"mutation">,
+>(
+  schema: StandardSchema,
+  mutationRef: Mutation,
+  options:
+    | ConvexFormOptions<Input, Mutation>
+    | ((data: Input) => FunctionArgs<Mutation>)
+    | undefined,
+  steps?: StandardSchema[],
 ): ConvexForm<Input, FunctionReturnType<Mutation>> {
   type Output = FunctionReturnType<Mutation>
 
+  const {
+    mapArgs,
+    optimisticUpdate,
+    generateUploadUrl,
+    action,
+    initial,
+    changedOnly,
+    autosave,
+    persist,
+    onSuccess,
+    onError,
+  } = typeof options === "function" ? { mapArgs: options } : (options ?? {})
+
   // eslint-disable-next-line svelte/prefer-svelte-reactivity -- internal singleton tracking, not reactive state
   const instances = new Map<
     string | number | undefined,
@@ -345,15 +779,385 @@ export function convexForm<
   >()
 
   function createInstance(key?: string | number): ConvexForm<Input, Output> {
-    let input: Record<string, unknown> = $state({})
+    const readInitial = (): Record<string, unknown> | undefined => {
+      const source = typeof initial === "function" ? initial(key) : initial
+      const value = isQueryResult(source) ? source.data : source
+      return isRecord(value) ? ($state.snapshot(value) as Record<string, unknown>) : undefined
+    }
+    // Last initial values applied — what `dirty` and `reset()` compare against
+    let baseline: Record<string, unknown> | undefined = $state.raw(untrack(readInitial))
+    let input: Record<string, unknown> = $state(baseline ? structuredClone(baseline) : {})
+    const dirty = $derived(!valuesEqual(input, baseline ?? {}))
     let rawIssues: FormIssue[] = $state.raw([])
-    const issues = $derived(flattenIssues(rawIssues))
+    // Issues from validateWith() checks, by field — kept apart so preflight doesn't clear them
+    let asyncIssues: Record<string, FormIssue[]> = $state.raw({})
+    let validating: Record<string, boolean> = $state({})
+    const issues = $derived(flattenIssues([...rawIssues, ...Object.values(asyncIssues).flat()]))
     let result: Output | undefined = $state.raw(undefined)
+    let uploadProgress: Record<string, number> = $state({})
     let pendingCount: number = $state(0)
     let preflightSchema: StandardSchema | undefined = schema
     let element: HTMLFormElement | null = null
-    let touched: Record<string, boolean> = {}
-    let submitted = false
+    let touched: Record<string, boolean> = $state({})
+    let submitted: boolean = $state(false)
+    let status: ConvexFormStatus = $state("idle")
+    let error: unknown = $state.raw(undefined)
+    let saving: boolean = $state(false)
+    let savedAt: Date | undefined = $state.raw(undefined)
+    // Stable `{#each}` keys per array field, by path string — a cache, not reactive state
+    let arrayKeys: Record<string, number[]> = {}
+    let nextArrayKey = 0
+    // validateWith() registrations, by field — timers and versions, not reactive state
+    const asyncChecks: Record<string, AsyncCheck> = {}
+
+    // Follow live initial data while the form is untouched
+    if (initial !== undefined) {
+      try {
+        $effect.pre(() => {
+          const next = readInitial()
+          untrack(() => {
+            if (next === undefined || (baseline && valuesEqual(next, baseline))) return
+            if (!dirty) input = structuredClone(next)
+            baseline = next
+          })
+        })
+      } catch {
+        // Not in effect context — initial values are applied once
+      }
+    }
+
+    /** Only the fields that differ from the initial values, plus ids */
+    function changedFields(data: Record<string, unknown>): Record<string, unknown> {
+      if (!baseline) return data
+      const out: Record<string, unknown> = {}
+      const fields = [...Object.keys(data), ...Object.keys(input).filter((k) => !(k in data))]
+      for (const field of fields) {
+        const value = field in data ? data[field] : $state.snapshot(input[field])
+        if (field === "id" || field === "_id" || !valuesEqual(value, baseline[field])) {
+          out[field] = value
+        }
+      }
+      return out
+    }
+
+    const autosaveDelay = autosave
+      ? ((autosave === true ? undefined : autosave.debounce) ?? 800)
+      : undefined
+    let autosaveTimer: ReturnType<typeof setTimeout> | undefined
+    /** A save is validating or in flight — unlike `saving`, set before the first await */
+    let autosaving = false
+    let saveQueued = false
+
+    function scheduleAutosave() {
+      if (autosaveDelay === undefined) return
+      clearTimeout(autosaveTimer)
+      autosaveTimer = setTimeout(() => void runAutosave(), autosaveDelay)
+    }
+
+    async function runAutosave() {
+      autosaveTimer = undefined
+      // One save at a time, validation included — edits made meanwhile go out together
+      // once it's done
+      if (autosaving) {
+        saveQueued = true
+        return
+      }
+      autosaving = true
+      try {
+        const data = $state.snapshot(input) as Input
+        if (key !== undefined && data.id === undefined) (data as Record<string, unknown>).id = key
+        const changed = Object.keys(changedFields(data))
+        if (changed.every((field) => field === "id" || field === "_id")) {
+          // Back to what was saved — whatever an earlier attempt complained about is gone
+          rawIssues = []
+          return
+        }
+
+        const validated = await preflightSchema?.["~standard"].validate(data)
+        // Only complain about fields the user has edited; fixed fields clear right away
+        rawIssues = validated?.issues
+          ? validated.issues.map((i) => normalizeIssue(i)).filter((i) => touched[i.name])
+          : []
+        if (validated?.issues) return
+        await settleChecks()
+        if (Object.values(asyncIssues).some((found) => found.length > 0)) return
+
+        saving = true
+        error = undefined
+        try {
+          await doMutation(data)
+          if (status === "success") {
+            // Later saves only send what changed after this one
+            baseline = data
+            savedAt = new Date()
+          }
+        } catch (e) {
+          error = e
+          if (onError) onError(e)
+          else console.error("[convexForm] autosave error:", e)
+        } finally {
+          saving = false
+        }
+      } finally {
+        autosaving = false
+        if (saveQueued) {
+          saveQueued = false
+          void runAutosave()
+        }
+      }
+    }
+
+    const draftKey = `convex-sveltekit:form:${getFunctionName(mutationRef)}${key === undefined ? "" : `|${key}`}`
+
+    function draftStorage(): Storage | undefined {
+      if (!persist) return undefined
+      try {
+        return persist === "local" ? localStorage : sessionStorage
+      } catch {
+        return undefined // SSR, or storage blocked
+      }
+    }
+
+    function saveDraft() {
+      const storage = draftStorage()
+      // Sensitive inputs are only known once the form is attached
+      if (!storage || !element) return
+      // Rebuilds the input as plain data — with an empty lookup, every File is dropped
+      const draft = replaceFiles(input, new Map()) as Record<string, unknown>
+      const sensitive = element.querySelectorAll<HTMLInputElement>(
+        'input[type="password"], [data-sensitive]',
+      )
+      for (const el of sensitive) {
+        const path = el.name
+          .replace(/^[nb]:/, "")
+          .replace(/\[\]$/, "")
+          .split(/\.|\[|\]/)
+          .filter(Boolean)
+        if (path.length > 0 && deepGet(draft, path) !== undefined) deepSet(draft, path, undefined)
+      }
+      try {
+        storage.setItem(draftKey, JSON.stringify(draft))
+      } catch {
+        // Quota exceeded — the draft is best effort
+      }
+    }
+
+    function restoreDraft() {
+      try {
+        const raw = draftStorage()?.getItem(draftKey)
+        if (raw) input = { ...input, ...(JSON.parse(raw) as Record<string, unknown>) }
+      } catch {
+        // Unreadable draft — start from the current values
+      }
+    }
+
+    function clearDraft() {
+      draftStorage()?.removeItem(draftKey)
+    }
+
+    /** After every user edit */
+    function edited() {
+      scheduleAutosave()
+      saveDraft()
+      void checkStep()
+    }
+
+    // --- Wizard (convexWizard) ---
+    let step: number = $state(0)
+    let stepValid: boolean = $state(false)
+    let stepCheck = 0
+
+    /** Fold the current step's DOM values into `input` — its inputs unmount on step change */
+    function captureStep(): Record<string, unknown> {
+      if (element) input = { ...input, ...convert(new FormData(element)) }
+      return $state.snapshot(input)
+    }
+
+    /** Recompute `canAdvance` for the current step */
+    async function checkStep() {
+      if (!steps) return
+      const version = ++stepCheck
+      const data = $state.snapshot(input)
+      if (element) Object.assign(data, convert(new FormData(element)))
+      const validated = await steps[step]!["~standard"].validate(data)
+      if (version === stepCheck) stepValid = !validated?.issues
+    }
+
+    async function firstInvalidStep(data: Record<string, unknown>): Promise<number> {
+      for (const [index, stepSchema] of steps!.entries()) {
+        if ((await stepSchema["~standard"].validate(data))?.issues) return index
+      }
+      return step
+    }
+
+    async function next(): Promise<boolean> {
+      if (!steps || step >= steps.length - 1) return false
+      const data = captureStep()
+      const validated = await steps[step]!["~standard"].validate(data)
+      if (validated?.issues) {
+        rawIssues = validated.issues.map((i) => normalizeIssue(i))
+        return false
+      }
+      await settleChecks()
+      if (Object.values(asyncIssues).some((found) => found.length > 0)) return false
+      rawIssues = []
+      step++
+      // Let the next step's inputs mount before checking them
+      await tick()
+      void checkStep()
+      return true
+    }
+
+    function back() {
+      if (!steps || step === 0) return
+      captureStep()
+      rawIssues = []
+      step--
+      void tick().then(checkStep)
+    }
+
+    function scheduleCheck(name: string) {
+      const check = asyncChecks[name]
+      if (!check) return
+      clearTimeout(check.timer)
+      check.version++ // results of an in-flight check are now stale
+      validating[name] = true
+      // By path at fire time — editArray() may have moved the field meanwhile
+      check.timer = setTimeout(
+        () => void runCheck(buildPathString(check.path)),
+        check.options.debounce ?? 300,
+      )
+    }
+
+    async function runCheck(name: string): Promise<void> {
+      const check = asyncChecks[name]!
+      clearTimeout(check.timer)
+      check.timer = undefined
+      const version = ++check.version
+      /** Report against the field's path when the result arrives, not when it was asked */
+      const finish = (message?: string) => {
+        if (version !== check.version) return
+        const field = buildPathString(check.path)
+        const found = message
+          ? [{ ...normalizeIssue({ message, path: check.path }), server: true }]
+          : []
+        asyncIssues = { ...asyncIssues, [field]: found }
+        validating[field] = false
+      }
+
+      const value = $state.snapshot(deepGet(input, check.path))
+      // Blank values are the schema's business (required or not)
+      if (value === undefined || value === "") return finish()
+
+      validating[name] = true
+      const field = check.path.findLast((segment) => typeof segment === "string") ?? name
+      const args = check.options.args ? check.options.args(value) : { [field]: value }
+      check.running = getConvexClient()
+        .query(check.query, args)
+        .then(
+          (outcome) =>
+            finish(
+              outcome === false
+                ? (check.options.message ?? "Invalid value")
+                : typeof outcome === "string"
+                  ? outcome
+                  : undefined,
+            ),
+          (e) => {
+            // The mutation validates again — a failed check must not block the form
+            console.error("[convexForm] validateWith query failed:", e)
+            finish()
+          },
+        )
+      await check.running
+    }
+
+    /** Run debounced checks now and wait until every check has settled */
+    async function settleChecks() {
+      // Re-read the names every round — editArray() re-keys checks while we wait
+      for (;;) {
+        const pending = Object.entries(asyncChecks).filter(([name]) => validating[name])
+        if (pending.length === 0) return
+        await Promise.all(
+          pending.map(([name, check]) =>
+            check.timer !== undefined ? runCheck(name) : check.running,
+          ),
+        )
+      }
+    }
+
+    function keysOf(path: (string | number)[]): number[] {
+      const items = deepGet(input, path)
+      const length = Array.isArray(items) ? items.length : 0
+      const keys = (arrayKeys[buildPathString(path)] ??= [])
+      // Items added through the inputs or `set()` get fresh keys
+      while (keys.length < length) keys.push(nextArrayKey++)
+      return keys.slice(0, length)
+    }
+
+    /** Item `i` of the new array is old item `order[i]`, or the next of `added` for -1 */
+    function editArray(path: (string | number)[], order: number[], added: unknown[] = []) {
+      const current = deepGet(input, path)
+      const items = Array.isArray(current) ? current : []
+      const keys = keysOf(path)
+      const name = buildPathString(path)
+
+      const moved: (number | undefined)[] = []
+      let nextAdded = 0
+      const next = order.map((from, to) => {
+        if (from < 0) return added[nextAdded++]
+        moved[from] = to
+        return items[from]
+      })
+
+      arrayKeys = remapArrayEntries(arrayKeys, name, moved)
+      arrayKeys[name] = order.map((from) => (from < 0 ? nextArrayKey++ : keys[from]!))
+      touched = { ...remapArrayEntries(touched, name, moved), [name]: true }
+
+      /** Where a path ends up: unchanged outside the array, null when its item was removed */
+      const relocate = (fieldPath: (string | number)[]): (string | number)[] | null => {
+        const index = Number(fieldPath[path.length])
+        const inArray =
+          Number.isInteger(index) &&
+          path.every((segment, i) => String(segment) === String(fieldPath[i]))
+        if (!inArray) return fieldPath
+        const to = moved[index]
+        return to === undefined ? null : fieldPath.with(path.length, to)
+      }
+      const moveIssues = (list: FormIssue[]) =>
+        list.flatMap((issue) => {
+          const issuePath = relocate(issue.path)
+          if (issuePath === issue.path) return [issue]
+          return issuePath ? [{ ...issue, path: issuePath, name: buildPathString(issuePath) }] : []
+        })
+      rawIssues = moveIssues(rawIssues)
+      asyncIssues = Object.fromEntries(
+        Object.entries(remapArrayEntries(asyncIssues, name, moved)).map(([field, list]) => [
+          field,
+          moveIssues(list),
+        ]),
+      )
+      validating = remapArrayEntries(validating, name, moved)
+
+      // validateWith() registrations follow their items; a removed item's check is dropped
+      const checks: Record<string, AsyncCheck> = {}
+      for (const check of Object.values(asyncChecks)) {
+        const checkPath = relocate(check.path)
+        if (checkPath) {
+          check.path = checkPath
+          checks[buildPathString(checkPath)] = check
+        } else {
+          clearTimeout(check.timer)
+          check.timer = undefined
+          check.version++
+        }
+      }
+      for (const field of Object.keys(asyncChecks)) delete asyncChecks[field]
+      Object.assign(asyncChecks, checks)
+
+      deepSet(input, path.map(String), next)
+      edited()
+    }
 
     function convert(formData: FormData): Record<string, unknown> {
       const data = convertFormData(formData)
@@ -372,13 +1176,29 @@ export function convexForm<
         submit: () => Promise<Output>
       }) => void | Promise<void>,
     ) {
-      const data = convert(formData) as Input
+      // Wizard: submitting an earlier step (Enter, a submit-type "Next") moves on instead
+      if (steps && step < steps.length - 1) {
+        await next()
+        return
+      }
+      const data = (steps ? { ...captureStep(), ...convert(formData) } : convert(formData)) as Input
       submitted = true
+      status = "validating"
+      error = undefined
 
-      // Client-side validation
+      // Client-side validation — for a wizard, the full schema
       const validated = await preflightSchema?.["~standard"].validate(data)
       if (validated?.issues) {
         rawIssues = validated.issues.map((i) => normalizeIssue(i))
+        status = "error"
+        if (steps) step = await firstInvalidStep(data)
+        return
+      }
+
+      // Async field checks must settle first — their issues block the submit too
+      await settleChecks()
+      if (Object.values(asyncIssues).some((found) => found.length > 0)) {
+        status = "error"
         return
       }
 
@@ -388,28 +1208,118 @@ export function convexForm<
           data,
           submit: () => doMutation(data),
         })
+        // submit() moved the status along — unless the callback decided not to submit
+        const outcome = status as ConvexFormStatus
+        if (outcome === "validating") status = "idle"
+        else if (outcome === "success") await onSuccess?.(result as Output, { form, data })
       } catch (e) {
-        console.error("[convexForm] submit error:", e)
+        error = e
+        status = "error"
+        if (onError) onError(e)
+        else console.error("[convexForm] submit error:", e)
       }
     }
 
     async function doMutation(data: Input): Promise<Output> {
       pendingCount++
+      status = "submitting"
       try {
         const client = getConvexClient()
-        const args = mapArgs ? mapArgs(data) : (data as unknown as FunctionArgs<Mutation>)
-        const mutationResult = (await client.mutation(mutationRef, args)) as Output
+        const changed = (changedOnly || autosave ? changedFields(data) : data) as Input
+        const uploaded = generateUploadUrl ? await uploadFiles(changed, generateUploadUrl) : changed
+        // Failed uploads are already reported as field issues
+        if (uploaded === undefined) {
+          status = "error"
+          return undefined as Output
+        }
+        const args = mapArgs ? mapArgs(uploaded) : (uploaded as unknown as FunctionArgs<Mutation>)
+        const mutationResult = (await intercept(
+          { name: getFunctionName(mutationRef), args, type: "mutation" },
+          () => client.mutation(mutationRef, args, { optimisticUpdate }),
+        )) as Output
+        noteServerMessage()
         result = mutationResult
         rawIssues = []
+        status = "success"
+        clearDraft()
         return mutationResult
       } catch (e) {
         result = undefined
-        throw e
+        status = "error"
+        const fromServer = serverIssues(e)
+        if (!fromServer) {
+          error = e
+          throw e
+        }
+        // Server-side validation — surface like preflight issues, keep the form as is
+        rawIssues = fromServer
+        return undefined as Output
       } finally {
         pendingCount--
       }
     }
 
+    /**
+     * Upload every File in `data` to Convex storage and return a copy with storage Ids
+     * in their place. Undefined (with field issues set) if any upload failed.
+     */
+    async function uploadFiles(
+      data: Input,
+      generateUrl: NonNullable<ConvexFormOptions<Input, Mutation>["generateUploadUrl"]>,
+    ): Promise<Input | undefined> {
+      const files = collectFiles(data)
+      if (files.length === 0) return data
+
+      const client = getConvexClient()
+      const loaded = files.map(() => 0)
+      const report = () => {
+        const totals: Record<string, { loaded: number; size: number }> = {}
+        files.forEach(({ field, file }, i) => {
+          const total = (totals[field] ??= { loaded: 0, size: 0 })
+          total.loaded += loaded[i]!
+          total.size += file.size
+        })
+        for (const [field, { loaded, size }] of Object.entries(totals)) {
+          uploadProgress[field] = size === 0 ? 1 : loaded / size
+        }
+      }
+      uploadProgress = {}
+      report()
+
+      const settled = await Promise.allSettled(
+        files.map(async ({ file }, i) => {
+          const url = await intercept(
+            { name: getFunctionName(generateUrl), args: {}, type: "mutation" },
+            () => client.mutation(generateUrl, {}),
+          )
+          noteServerMessage()
+          return uploadFile(url, file, (bytes) => {
+            loaded[i] = bytes
+            report()
+          })
+        }),
+      )
+
+      // eslint-disable-next-line svelte/prefer-svelte-reactivity -- local lookup, not reactive state
+      const ids = new Map<File, string>()
+      const failed: FormIssue[] = []
+      settled.forEach((outcome, i) => {
+        const { file, fieldPath } = files[i]!
+        if (outcome.status === "fulfilled") {
+          ids.set(file, outcome.value)
+        } else {
+          const reason = outcome.reason instanceof Error ? outcome.reason.message : "unknown error"
+          failed.push(normalizeIssue({ message: `${file.name}: ${reason}`, path: fieldPath }))
+        }
+      })
+
+      if (failed.length > 0) {
+        rawIssues = failed
+        return undefined
+      }
+      return replaceFiles(data, ids) as Input
+    }
+
     // Build the form submit handler
     function formOnSubmit(
       callback: (opts: {
@@ -438,6 +1348,8 @@ export function convexForm<
         }
         element = form
         touched = {}
+        restoreDraft()
+        if (steps) void tick().then(checkStep)
 
         form.addEventListener("submit", onsubmit)
 
@@ -494,6 +1406,8 @@ export function convexForm<
                   : el.value
             deepSet(input, cleanName.split(/\.|\[|\]/).filter(Boolean), rawValue)
           }
+          scheduleCheck(name.replace(/^[nb]:/, ""))
+          edited()
         })
 
         form.addEventListener("reset", async () => {
@@ -515,12 +1429,23 @@ export function convexForm<
     const defaultAttachment = createAttachment(
       formOnSubmit(async ({ submit, form }) => {
         await submit()
-        if (!issues.$) form.reset()
+        if (issues.$) return
+        if (steps) {
+          // Start over — the first step's inputs render from the cleared input
+          input = baseline ? structuredClone(baseline) : {}
+          touched = {}
+          step = 0
+          void tick().then(checkStep)
+        } else if (initial === undefined && !autosave) {
+          // Edit forms keep their values — the live data catches up with them
+          form.reset()
+        }
       }),
     )
 
     Object.assign(instance, {
       method: "POST" as const,
+      ...(action !== undefined && { action }),
       [createAttachmentKey()]: defaultAttachment,
     })
 
@@ -529,20 +1454,70 @@ export function convexForm<
         get: () =>
           createFieldProxy(
             {},
-            () => input,
-            (path, value) => {
-              if (path.length === 0) {
-                input = value as Record<string, unknown>
-              } else {
-                deepSet(input, path.map(String), value)
-                touched[buildPathString(path)] = true
-              }
+            {
+              getInput: () => input,
+              setInput: (path, value) => {
+                if (path.length === 0) {
+                  input = value as Record<string, unknown>
+                } else {
+                  deepSet(input, path.map(String), value)
+                  touched[buildPathString(path)] = true
+                  scheduleCheck(buildPathString(path))
+                  edited()
+                }
+              },
+              getIssues: () => issues,
+              getProgress: () => uploadProgress,
+              getInitial: () => baseline ?? {},
+              getTouched: () => touched,
+              arrayKeys: keysOf,
+              editArray,
+              validateWith: (path, query, options) => {
+                const name = buildPathString(path)
+                asyncChecks[name] = {
+                  ...(asyncChecks[name] ?? { version: 0 }),
+                  path,
+                  query,
+                  options,
+                }
+              },
+              getValidating: () => validating,
             },
-            () => issues,
           ),
       },
       result: { get: () => result },
       pending: { get: () => pendingCount },
+      dirty: { get: () => dirty },
+      touched: { get: () => Object.keys(touched).length > 0 },
+      submitted: { get: () => submitted },
+      status: { get: () => status },
+      error: { get: () => error },
+      saving: { get: () => saving },
+      savedAt: { get: () => savedAt },
+      reset: {
+        value: () => {
+          rawIssues = []
+          touched = {}
+          submitted = false
+          status = "idle"
+          error = undefined
+          for (const check of Object.values(asyncChecks)) {
+            clearTimeout(check.timer)
+            check.timer = undefined
+            check.version++
+          }
+          asyncIssues = {}
+          validating = {}
+          clearDraft()
+          if (baseline) input = structuredClone(baseline)
+          else if (steps) input = {}
+          else element?.reset()
+          if (steps) {
+            step = 0
+            void tick().then(checkStep)
+          }
+        },
+      },
       preflight: {
         value: (s: StandardSchema<Input>) => {
           preflightSchema = s
@@ -550,7 +1525,7 @@ export function convexForm<
         },
       },
       validate: {
-        value: async ({ includeUntouched = false, preflightOnly: _ = false } = {}) => {
+        value: async ({ includeUntouched = false, preflightOnly = false } = {}) => {
           if (!element) return
           await tick()
           const formData = new FormData(element)
@@ -565,6 +1540,11 @@ export function convexForm<
           } else {
             rawIssues = []
           }
+          if (preflightOnly) return
+          const names = Object.keys(asyncChecks).filter(
+            (name) => includeUntouched || submitted || touched[name],
+          )
+          await Promise.all(names.map((name) => runCheck(name)))
         },
       },
       enhance: {
@@ -576,9 +1556,39 @@ export function convexForm<
           }) => void | Promise<void>,
         ) => ({
           method: "POST" as const,
+          ...(action !== undefined && { action }),
           [createAttachmentKey()]: createAttachment(formOnSubmit(callback)),
         }),
       },
+      ...(steps && {
+        step: { get: () => step },
+        canAdvance: {
+          get: () =>
+            stepValid &&
+            !Object.values(validating).some(Boolean) &&
+            !Object.values(asyncIssues).some((found) => found.length > 0),
+        },
+        next: { value: next },
+        back: { value: back },
+      }),
+      hydrate: {
+        value: (actionData: unknown) => {
+          const payload = isRecord(actionData)
+            ? (actionData.convexForm as ConvexFormActionData | undefined)
+            : undefined
+          if (payload?.mutation !== getFunctionName(mutationRef)) return instance
+          // Keyed instances (.for(id)) only take the submit that carried their id
+          if (key !== undefined && payload.input?.id !== undefined && payload.input.id !== key) {
+            return instance
+          }
+          rawIssues = payload.issues ?? []
+          if (payload.input) input = payload.input
+          if ("result" in payload) result = payload.result as Output
+          submitted = rawIssues.length > 0
+          status = submitted ? "error" : "result" in payload ? "success" : "idle"
+          return instance
+        },
+      },
     })
 
     return instance
@@ -615,3 +1625,76 @@ export function convexForm<
 
   return instance
 }
+
+// ============================================================================
+// convexWizard — multi-step forms
+// ============================================================================
+
+/** Options for convexWizard() */
+export interface ConvexWizardOptions<
+  Input,
+  Mutation extends FunctionReference<"mutation">,
+> extends ConvexFormOptions<Input, Mutation> {
+  /** Schema for the final submit (default: every step's schema) */
+  schema?: StandardSchema<Input>
+}
+
+type UnionToIntersection<U> = (U extends unknown ? (x: U) => void : never) extends (
+  x: infer I,
+) => void
+  ? I
+  : never
+
+/**
+ * Create a multi-step form that ends in a single Convex mutation. Input is kept
+ * across steps; `next()` validates only the current step's schema, and the last
+ * step submits like convexForm() after validating all of them.
+ *
+ * ```svelte
+ * <form {...onboarding}>
+ *   {#if onboarding.step === 0}<input {...onboarding.fields.name.as("text")} />{/if}
+ *   {#if onboarding.step === 1}<input {...onboarding.fields.company.as("text")} />{/if}
+ *   {#if onboarding.step > 0}<button type="button" onclick={onboarding.back}>Back</button>{/if}
+ *   <button disabled={!onboarding.canAdvance}>{onboarding.step === 1 ? "Finish" : "Next"}</button>
+ * </form>
+ * ```
+ *
+ * @param steps — one Zod / Standard Schema per step
+ * @param mutationRef — mutation called with the combined input
+ * @param options — convexForm() options, plus `schema` for the final submit
+ */
+export function convexWizard<
+  Steps extends StandardSchema<Record<string, unknown>>[],
+  Mutation extends FunctionReference<"mutation"> = FunctionReference<"mutation">,
+  Input extends Record<string, unknown> = UnionToIntersection<InferInput<Steps[number]>> &
+    Record<string, unknown>,
+>(
+  steps: [...Steps],
+  mutationRef: Mutation,
+  options?: ConvexWizardOptions<Input, Mutation>,
+): ConvexWizard<Input, FunctionReturnType<Mutation>> {
+  if (steps.length === 0) throw new Error("[convexWizard] At least one step is required")
+  const { schema = allSteps(steps), ...formOptions } = options ?? {}
+  return createForm<Input, Mutation>(
+    schema,
+    mutationRef,
+    formOptions,
+    steps,
+  ) as unknown as ConvexWizard<Input, FunctionReturnType<Mutation>>
+}
+
+/** A schema that runs every step's schema and collects all of their issues */
+function allSteps(steps: StandardSchema[]): StandardSchema {
+  return {
+    "~standard": {
+      async validate(value) {
+        const issues: SchemaIssue[] = []
+        for (const step of steps) {
+          const validated = await step["~standard"].validate(value)
+          if (validated?.issues) issues.push(...validated.issues)
+        }
+        return issues.length > 0 ? { issues } : {}
+      },
+    },
+  }
+}
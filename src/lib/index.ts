@@ -5,16 +5,66 @@ export {
   getConvexClient,
   getConvexUrl,
   useConvexClient,
+  useConvexConnectionState,
+  type ConvexConnectionState,
+  type ConvexSetupOptions,
+  type ConvexInterceptor,
+  type ConvexCallInfo,
 } from "./client.svelte.js"
 
 // Live queries
-export { convexQuery, createDetachedQuery, type ConvexQueryResult } from "./query.svelte.js"
+export {
+  convexQuery,
+  createDetachedQuery,
+  configureQueryCache,
+  type ConvexQueryResult,
+  type AwaitableQueryResult,
+  type RetryOption,
+  type RetryOptions,
+  type DetachedQueryOptions,
+} from "./query.svelte.js"
+
+// Persisted query cache (used by `configureQueryCache({ persist })`)
+export { setQueryCacheScope, clearPersistedQueries, type QueryPersistOptions } from "./persist.js"
+
+// Structural sharing (used by `structuralSharing: true`)
+export { replaceEqualDeep } from "./sharing.js"
+
+// Live paginated queries
+export {
+  convexPaginatedQuery,
+  createDetachedPaginatedQuery,
+  type ConvexPaginatedQueryResult,
+  type PaginatedQueryReference,
+  type PaginatedQueryArgs,
+  type PaginatedQueryItem,
+} from "./pagination.svelte.js"
 
 // Client-side forms (SvelteKit RemoteForm-compatible)
-export { convexForm, type ConvexForm } from "./form.svelte.js"
+export {
+  convexForm,
+  convexWizard,
+  type ConvexForm,
+  type ConvexWizard,
+  type ConvexWizardOptions,
+  type ConvexFormOptions,
+  type ConvexFormActionData,
+  type ConvexFormStatus,
+  type FieldValidatorOptions,
+  type FieldValidatorQuery,
+} from "./form.svelte.js"
+export { convexFormAction } from "./form-action.js"
+export { fromConvexValidator } from "./validator.js"
 
 // Programmatic mutations/actions (SvelteKit RemoteCommand-compatible)
-export { convexCommand, type ConvexCommand } from "./command.svelte.js"
+export {
+  convexCommand,
+  ConvexAbortError,
+  type ConvexCommand,
+  type ConvexCommandOptions,
+  type ConvexCallOptions,
+} from "./command.svelte.js"
+export { replayCommandQueue, type QueuedCommand, type CommandQueueOptions } from "./queue.svelte.js"
 
 // SSR bridge
 export {
@@ -22,6 +72,10 @@ export {
   ConvexLoadResult,
   encodeConvexLoad,
   decodeConvexLoad,
+  convexLoadPaginated,
+  ConvexPaginatedLoadResult,
+  encodeConvexPaginatedLoad,
+  decodeConvexPaginatedLoad,
 } from "./transport.svelte.js"
 
 // Server-side helpers (for .remote.ts and load functions)
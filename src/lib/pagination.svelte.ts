@@ -0,0 +1,280 @@
+/**
+ * convexPaginatedQuery() — live paginated Convex query.
+ *
+ * Works with queries that take `paginationOpts: paginationOptsValidator` and
+ * return `.paginate()` results. Every loaded page stays subscribed, so edits to
+ * any row show up live — not just the first page.
+ *
+ * Returns a reactive object:
+ * - Getters: .results, .status, .isLoading, .error
+ * - Methods: .loadMore(n), .dispose()
+ *
+ * Built on ConvexClient's `onPaginatedUpdate_experimental`, which keeps one
+ * subscription per loaded page and handles page splitting.
+ */
+import type { PaginationStatus } from "convex/browser"
+import type {
+  FunctionArgs,
+  FunctionReference,
+  FunctionReturnType,
+  PaginationOptions,
+  PaginationResult,
+} from "convex/server"
+import { getConvexClient, noteServerMessage } from "./client.svelte.js"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A query that accepts `paginationOpts` and returns a `PaginationResult`. */
+export type PaginatedQueryReference = FunctionReference<
+  "query",
+  "public",
+  { paginationOpts: PaginationOptions },
+  PaginationResult<unknown>
+>
+
+/** Query args without `paginationOpts` — the library manages pagination. */
+export type PaginatedQueryArgs<Query extends PaginatedQueryReference> = Omit<
+  FunctionArgs<Query>,
+  "paginationOpts"
+>
+
+/** Type of a single item in the paginated results. */
+export type PaginatedQueryItem<Query extends PaginatedQueryReference> =
+  FunctionReturnType<Query>["page"][number]
+
+type PaginatedArgsOrSkip<Query extends PaginatedQueryReference> =
+  | PaginatedQueryArgs<Query>
+  | "skip"
+  | (() => PaginatedQueryArgs<Query> | "skip")
+
+interface ConvexPaginatedQueryOptions {
+  /** Number of items to load in the first page */
+  initialNumItems: number
+}
+
+/** Shape the ConvexClient passes to paginated callbacks at runtime. */
+type LivePaginatedResult<T> = {
+  results: T[]
+  status: PaginationStatus
+  loadMore: (numItems: number) => boolean
+}
+
+/** Reactive paginated query result */
+export interface ConvexPaginatedQueryResult<Query extends PaginatedQueryReference> {
+  /** All items loaded so far, across every page */
+  readonly results: PaginatedQueryItem<Query>[]
+  /** `LoadingFirstPage | CanLoadMore | LoadingMore | Exhausted` */
+  readonly status: PaginationStatus
+  /** True while waiting for the first page (false when skipped) */
+  readonly isLoading: boolean
+  /** Error if the query failed */
+  readonly error: Error | undefined
+
+  /** Request `numItems` more items. Returns false if already loading or exhausted. */
+  loadMore(numItems: number): boolean
+  /** Stop the live subscription now instead of waiting for unmount / garbage collection */
+  dispose(): void
+}
+
+// ============================================================================
+// Main
+// ============================================================================
+
+/**
+ * Subscribe to a paginated Convex query. Returns a reactive object with live-updating pages.
+ *
+ * ```ts
+ * const messages = convexPaginatedQuery(api.messages.list, { channel }, { initialNumItems: 20 })
+ * // messages.results, messages.status, messages.loadMore(20)
+ * ```
+ *
+ * Args can be reactive (function form) or `"skip"`. Changing args resets to the first page.
+ */
+export function convexPaginatedQuery<Query extends PaginatedQueryReference>(
+  query: Query,
+  args: PaginatedArgsOrSkip<Query>,
+  options: ConvexPaginatedQueryOptions | (() => ConvexPaginatedQueryOptions),
+): ConvexPaginatedQueryResult<Query> {
+  type Item = PaginatedQueryItem<Query>
+
+  const client = getConvexClient()
+
+  if (typeof query === "string") {
+    throw new Error("[convex] query must be a FunctionReference, not a string")
+  }
+
+  let live: LivePaginatedResult<Item> | undefined = $state.raw(undefined)
+  let results: Item[] = $state.raw([])
+  let error: Error | undefined = $state.raw(undefined)
+  let skipped = $state(false)
+  let disposed = $state(false)
+
+  // --- subscription effect ---
+  $effect(() => {
+    if (disposed) return
+    const argsObject = parseArgs(args)
+    const { initialNumItems } = parseOptions(options)
+
+    // Changing args starts over from the first page
+    live = undefined
+    results = []
+    error = undefined
+    skipped = argsObject === "skip"
+    if (argsObject === "skip") return
+
+    const unsubscribe = client.onPaginatedUpdate_experimental(
+      query,
+      argsObject as FunctionArgs<Query>,
+      { initialNumItems },
+      (result) => {
+        noteServerMessage()
+        live = result as unknown as LivePaginatedResult<Item>
+        results = structuredClone(live.results)
+        error = undefined
+      },
+      (e: Error) => {
+        error = e
+      },
+    )
+
+    return unsubscribe
+  })
+
+  return {
+    get results() {
+      return results
+    },
+    get status() {
+      return live?.status ?? "LoadingFirstPage"
+    },
+    get isLoading() {
+      return !skipped && error === undefined && live === undefined
+    },
+    get error() {
+      return error
+    },
+    loadMore(numItems: number) {
+      return live?.loadMore(numItems) ?? false
+    },
+    dispose() {
+      disposed = true
+    },
+  }
+}
+
+// ============================================================================
+// Detached paginated query — works OUTSIDE component context (transport.decode)
+// ============================================================================
+
+/** Unsubscribes detached paginated queries once nothing references them. */
+const paginatedFinalizer =
+  typeof FinalizationRegistry !== "undefined"
+    ? new FinalizationRegistry<() => void>((release) => release())
+    : undefined
+
+/** Holds the unsubscribe function, so the release callback needn't share the handle's scope */
+type Subscription = { unsubscribe?: () => void }
+
+/** Built outside the handle's scope — see makeRelease() in query.svelte.ts */
+function makeRelease(subscription: Subscription): () => void {
+  return () => {
+    subscription.unsubscribe?.()
+    subscription.unsubscribe = undefined
+  }
+}
+
+/**
+ * Create a live paginated subscription without $effect (no component context needed).
+ * Used by transport.decode and convexLoadPaginated() on client-side navigation.
+ *
+ * `initialPage` seeds the results (e.g. the SSR-rendered first page) until the
+ * live subscription delivers its first result.
+ *
+ * The subscription is released by `.dispose()`, or once the returned object is
+ * garbage collected (see createDetachedQuery).
+ */
+export function createDetachedPaginatedQuery<Query extends PaginatedQueryReference>(
+  query: Query,
+  args: PaginatedQueryArgs<Query>,
+  initialNumItems: number,
+  initialPage?: { page: PaginatedQueryItem<Query>[]; isDone: boolean },
+): ConvexPaginatedQueryResult<Query> {
+  type Item = PaginatedQueryItem<Query>
+
+  const client = getConvexClient()
+
+  let live: LivePaginatedResult<Item> | undefined = $state.raw(undefined)
+  let results: Item[] = $state.raw(initialPage?.page ?? [])
+  let error: Error | undefined = $state.raw(undefined)
+
+  // Direct subscription — no $effect needed
+  const subscription: Subscription = {}
+  if (!client.disabled) {
+    subscription.unsubscribe = client.onPaginatedUpdate_experimental(
+      query,
+      args as FunctionArgs<Query>,
+      { initialNumItems },
+      (update) => {
+        noteServerMessage()
+        live = update as unknown as LivePaginatedResult<Item>
+        results = structuredClone(live.results)
+        error = undefined
+      },
+      (e: Error) => {
+        error = e
+      },
+    )
+  }
+
+  const release = makeRelease(subscription)
+  // Unregister token — no closure may capture `result`, or it can never be collected
+  const token = {}
+
+  const result: ConvexPaginatedQueryResult<Query> = {
+    get results() {
+      return results
+    },
+    get status() {
+      if (live) return live.status
+      if (initialPage) return initialPage.isDone ? "Exhausted" : "CanLoadMore"
+      return "LoadingFirstPage"
+    },
+    get isLoading() {
+      return error === undefined && live === undefined && !initialPage
+    },
+    get error() {
+      return error
+    },
+    loadMore(numItems: number) {
+      return live?.loadMore(numItems) ?? false
+    },
+    dispose() {
+      paginatedFinalizer?.unregister(token)
+      release()
+    },
+  }
+
+  paginatedFinalizer?.register(result, release, token)
+  return result
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function parseArgs<Query extends PaginatedQueryReference>(
+  args: PaginatedArgsOrSkip<Query>,
+): PaginatedQueryArgs<Query> | "skip" {
+  const resolved =
+    typeof args === "function" ? (args as () => PaginatedQueryArgs<Query> | "skip")() : args
+  if (resolved === "skip") return "skip"
+  return $state.snapshot(resolved) as PaginatedQueryArgs<Query>
+}
+
+function parseOptions(
+  options: ConvexPaginatedQueryOptions | (() => ConvexPaginatedQueryOptions),
+): ConvexPaginatedQueryOptions {
+  return typeof options === "function" ? options() : options
+}
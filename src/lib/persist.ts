@@ -0,0 +1,204 @@
+/**
+ * Persisted query cache — last known query results survive a hard reload.
+ *
+ * Opt in with `configureQueryCache({ persist: true })`. Results are written to
+ * localStorage (synchronous, so the very first render can read them), keyed by
+ * function name + args and scoped by the authenticated user. Restored values are
+ * reported as `isStale` until the live subscription delivers fresh data.
+ *
+ * Scope: `setupConvexAuth()` sets it from the Convex token (`sub` claim), or to
+ * `"anonymous"` when signed out. Other auth providers call `setQueryCacheScope()`;
+ * apps without auth pass `persist: { scope }`. Until a scope is set (and while auth
+ * is still resolving) nothing is read or written, so one account never sees
+ * another account's data.
+ */
+import { convexToJson, jsonToConvex, type JSONValue } from "convex/values"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Settings for `configureQueryCache({ persist })` */
+export interface QueryPersistOptions {
+  /** Where to write entries (default: `localStorage`) */
+  storage?: Storage
+  /** Entries older than this many ms are discarded (default: 24 hours) */
+  ttl?: number
+  /** Upper bound for all entries together, in characters of JSON — oldest go first (default: 1 MB) */
+  maxSize?: number
+  /**
+   * Fixed scope for apps without sign-in (e.g. `"public"`). Leave it out when users
+   * authenticate — entries then wait for `setupConvexAuth()` / `setQueryCacheScope()`.
+   */
+  scope?: string
+}
+
+/** Index entry: when the value was saved and how large it is */
+type IndexEntry = { savedAt: number; size: number }
+
+// ============================================================================
+// State
+// ============================================================================
+
+const PREFIX = "convex-sveltekit:query:"
+const INDEX_KEY = "convex-sveltekit:query-index"
+/** Coalesces rapid server pushes into one write per key */
+const WRITE_DELAY = 1000
+
+let settings: Required<Omit<QueryPersistOptions, "scope">> | undefined
+/** Unknown until auth (or an explicit scope) says whose data this is */
+let scope: string | null = null
+let index: Record<string, IndexEntry> | undefined
+
+const pendingWrites = new Map<string, unknown>()
+let flushTimer: ReturnType<typeof setTimeout> | undefined
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Set the scope persisted entries are read from and written to — normally the
+ * user id. `null` pauses persistence (e.g. while auth is resolving).
+ * `setupConvexAuth()` calls this for you.
+ */
+export function setQueryCacheScope(next: string | null) {
+  if (next === scope) return
+  // Pushes buffered for the previous user must not be written under the new one
+  pendingWrites.clear()
+  scope = next
+}
+
+/** Remove every persisted query result, for all scopes (e.g. on sign-out). */
+export function clearPersistedQueries() {
+  if (!settings) return
+  pendingWrites.clear()
+  for (const key of Object.keys(loadIndex())) settings.storage.removeItem(key)
+  index = {}
+  settings.storage.removeItem(INDEX_KEY)
+}
+
+// ============================================================================
+// Internal — used by query.svelte.ts
+// ============================================================================
+
+/** Turn persistence on or off. No-op where localStorage is unavailable (SSR). */
+export function configurePersistence(options: boolean | QueryPersistOptions) {
+  if (!options) {
+    settings = undefined
+    return
+  }
+  const storage =
+    (options === true ? undefined : options.storage) ??
+    (typeof localStorage !== "undefined" ? localStorage : undefined)
+  if (!storage) return
+  const { ttl = 24 * 60 * 60 * 1000, maxSize = 1_000_000 } = options === true ? {} : options
+  settings = { storage, ttl, maxSize }
+  index = undefined
+  if (options !== true && options.scope !== undefined) setQueryCacheScope(options.scope)
+}
+
+/** Last saved value for a query key in the current scope, if fresh enough. */
+export function readPersisted(queryKey: string): unknown {
+  if (!settings || scope === null) return undefined
+  const key = storageKey(scope, queryKey)
+  const meta = loadIndex()[key]
+  if (!meta) return undefined
+  if (Date.now() - meta.savedAt > settings.ttl) {
+    removeEntry(key)
+    return undefined
+  }
+  try {
+    const raw = settings.storage.getItem(key)
+    return raw === null ? undefined : jsonToConvex(JSON.parse(raw) as JSONValue)
+  } catch {
+    removeEntry(key)
+    return undefined
+  }
+}
+
+/** Queue a value to be saved for a query key in the current scope. */
+export function writePersisted(queryKey: string, value: unknown) {
+  if (!settings || scope === null) return
+  pendingWrites.set(storageKey(scope, queryKey), value)
+  flushTimer ??= setTimeout(flush, WRITE_DELAY)
+}
+
+/** Drop the saved value (and any pending write) for a query key in the current scope. */
+export function removePersisted(queryKey: string) {
+  if (!settings || scope === null) return
+  const key = storageKey(scope, queryKey)
+  pendingWrites.delete(key)
+  if (loadIndex()[key]) removeEntry(key)
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+function storageKey(scope: string, queryKey: string): string {
+  return `${PREFIX}${scope}|${queryKey}`
+}
+
+function flush() {
+  flushTimer = undefined
+  if (!settings) return
+  const now = Date.now()
+  const entries = loadIndex()
+
+  for (const [key, value] of pendingWrites) {
+    let json: string
+    try {
+      json = JSON.stringify(convexToJson(value as never))
+    } catch {
+      continue // not a Convex value — nothing sensible to persist
+    }
+    if (json.length > settings.maxSize) continue
+    try {
+      settings.storage.setItem(key, json)
+      entries[key] = { savedAt: now, size: json.length }
+    } catch {
+      // Quota exceeded — evict below and try again on the next push
+    }
+  }
+  pendingWrites.clear()
+
+  evict(entries)
+  saveIndex()
+}
+
+/** Drop expired entries, then the oldest ones until everything fits in maxSize. */
+function evict(entries: Record<string, IndexEntry>) {
+  const { ttl, maxSize } = settings!
+  const now = Date.now()
+  let total = 0
+  const byAge = Object.entries(entries).sort(([, a], [, b]) => b.savedAt - a.savedAt)
+  for (const [key, meta] of byAge) {
+    if (now - meta.savedAt > ttl || total + meta.size > maxSize) removeEntry(key, false)
+    else total += meta.size
+  }
+}
+
+function loadIndex(): Record<string, IndexEntry> {
+  if (index) return index
+  try {
+    index = JSON.parse(settings!.storage.getItem(INDEX_KEY) ?? "{}") as Record<string, IndexEntry>
+  } catch {
+    index = {}
+  }
+  return index
+}
+
+function saveIndex() {
+  try {
+    settings!.storage.setItem(INDEX_KEY, JSON.stringify(loadIndex()))
+  } catch {
+    // Quota exceeded — the index is rebuilt from scratch next time
+  }
+}
+
+function removeEntry(key: string, persistIndex = true) {
+  settings!.storage.removeItem(key)
+  delete loadIndex()[key]
+  if (persistIndex) saveIndex()
+}
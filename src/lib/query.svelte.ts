@@ -2,18 +2,30 @@
  * convexQuery() — live Convex query with SvelteKit-compatible API.
  *
  * Returns a reactive object matching the shape of SvelteKit's RemoteQuery:
- * - Getters: .data, .isLoading, .error, .isStale, .current, .loading, .ready
- * - Methods: .set(), .refresh(), .withOverride()
+ * - Getters: .data, .isLoading, .error, .isStale, .hasPendingOverrides, .current, .loading, .ready
+ * - Methods: .set(), .refresh(), .withOverride(), .dispose()
+ * - Awaitable: `{#await tasks}` / `await tasks` resolve with the first data
  *
  * Uses the module-level ConvexClient singleton (not Svelte context),
  * so it works inside transport.decode and other non-component code.
  *
- * Adapted from convex-svelte's useQuery — all reactive subscription logic preserved.
+ * Adapted from convex-svelte's useQuery. Subscriptions live in a module-level
+ * store keyed by function name + args, shared by every consumer of that key.
+ * Results can optionally be persisted across reloads (see persist.ts).
  */
 import type { FunctionReference, FunctionReturnType, FunctionArgs } from "convex/server"
 import { getFunctionName } from "convex/server"
 import { convexToJson } from "convex/values"
-import { getConvexClient } from "./client.svelte.js"
+import { untrack } from "svelte"
+import { getConvexClient, noteServerMessage } from "./client.svelte.js"
+import {
+  configurePersistence,
+  readPersisted,
+  removePersisted,
+  writePersisted,
+  type QueryPersistOptions,
+} from "./persist.js"
+import { replaceEqualDeep } from "./sharing.js"
 
 // ============================================================================
 // Types
@@ -29,8 +41,41 @@ type ArgsOrSkip<Query extends FunctionReference<"query">> =
 interface ConvexQueryOptions<Query extends FunctionReference<"query">> {
   initialData?: FunctionReturnType<Query>
   keepPreviousData?: boolean
+  /** Re-subscribe with exponential backoff after a query error */
+  retry?: RetryOption
+  /**
+   * Reuse unchanged objects between server pushes instead of cloning everything.
+   * Documents are matched by `_id`. Data is then immutable (not deeply reactive) —
+   * use `.set()` / `.withOverride()` for local changes.
+   */
+  structuralSharing?: boolean
+  /**
+   * Save results for the next visit when `configureQueryCache({ persist })` is on.
+   * Default true — pass false for data that should never touch storage. Any consumer
+   * passing false opts the query + args out for every consumer, for the whole session.
+   */
+  persist?: boolean
 }
 
+/** Backoff settings for automatic re-subscription after an error */
+export interface RetryOptions {
+  /** Maximum retries before giving up (default 3) */
+  attempts?: number
+  /** Delay before the first retry in ms, doubled on each attempt (default 1000) */
+  delay?: number
+  /** Upper bound for the delay in ms (default 30000) */
+  maxDelay?: number
+}
+
+/** `true` retries with the default backoff */
+export type RetryOption = boolean | RetryOptions
+
+/** Options for createDetachedQuery() / convexLoad() — serializable across the SSR boundary */
+export type DetachedQueryOptions = Pick<
+  ConvexQueryOptions<FunctionReference<"query">>,
+  "retry" | "structuralSharing" | "persist"
+>
+
 /** Reactive query result — superset of convex-svelte's shape + SvelteKit RemoteQuery compat */
 export interface ConvexQueryResult<Query extends FunctionReference<"query">> {
   /** Query result data (undefined while loading or on error) */
@@ -39,8 +84,10 @@ export interface ConvexQueryResult<Query extends FunctionReference<"query">> {
   readonly isLoading: boolean
   /** Error if query failed */
   readonly error: Error | undefined
-  /** True if showing stale data from previous args */
+  /** True if showing data from previous args, or a persisted result the server hasn't confirmed yet */
   readonly isStale: boolean
+  /** True while withOverride() updates are applied on top of the server data */
+  readonly hasPendingOverrides: boolean
 
   // --- SvelteKit RemoteQuery compat ---
 
@@ -55,21 +102,310 @@ export interface ConvexQueryResult<Query extends FunctionReference<"query">> {
 
   /** Imperatively set the query value (optimistic update) */
   set(value: FunctionReturnType<Query>): void
-  /** Re-subscribe to force a fresh result */
+  /** Re-subscribe to force a fresh result (also resets the retry backoff) */
   refresh(): Promise<void>
-  /** Create an override descriptor for use with form.enhance().submit().updates() */
+  /**
+   * Apply an optimistic update until `release()` — for use with `command(args).updates(...)`.
+   * Overrides stack in order and are re-applied on top of every server push.
+   */
   withOverride(update: (current: FunctionReturnType<Query>) => FunctionReturnType<Query>): {
     _key: string
     release: () => void
   }
+  /** Stop the live subscription now instead of waiting for unmount / garbage collection */
+  dispose(): void
 }
 
+/**
+ * convexQuery() result — also a thenable that resolves with the first data and
+ * rejects on error, for `{#await}` and async markup. `.current` stays live after.
+ *
+ * Detached results (convexLoad) are deliberately not thenable: they are returned
+ * from async load functions, which would unwrap them into plain data.
+ */
+export interface AwaitableQueryResult<Query extends FunctionReference<"query">>
+  extends ConvexQueryResult<Query>, PromiseLike<FunctionReturnType<Query>> {}
+
 // ============================================================================
 // Internal sentinel
 // ============================================================================
 
 const SKIP = Symbol("convex.query.skip")
 
+// ============================================================================
+// Shared query store — one subscription per function name + args
+// ============================================================================
+
+type OverrideLayer = { update: (current: unknown) => unknown }
+
+/** Shared reactive entry for one query + args, used by every consumer of that key. */
+type QueryEntry = {
+  key: string
+  refCount: number
+  state: {
+    data: unknown
+    error: Error | undefined
+    /** Bumped on every server push — invalidates per-consumer `set()` values */
+    version: number
+    /** withOverride() stack, applied in order on top of the server data */
+    overrides: OverrideLayer[]
+    /** `data` came from the persisted cache and the server hasn't confirmed it yet */
+    restored: boolean
+  }
+  retry: RetryOption | undefined
+  retryAttempt: number
+  retryTimer: ReturnType<typeof setTimeout> | undefined
+  /** Pending unsubscribe after the last consumer left (see configureQueryCache) */
+  evictTimer: ReturnType<typeof setTimeout> | undefined
+  /** Drop the current subscription (if any) and open a fresh one */
+  subscribe: () => void
+  unsubscribe: () => void
+}
+
+// eslint-disable-next-line svelte/prefer-svelte-reactivity -- internal registry, not reactive state
+const queryStore = new Map<string, QueryEntry>()
+
+/** Query keys some consumer acquired with `persist: false` — never read or written again */
+// eslint-disable-next-line svelte/prefer-svelte-reactivity -- internal registry, not reactive state
+const unpersisted = new Set<string>()
+
+let retentionMs = 0
+
+/**
+ * Configure the shared query store.
+ *
+ * `retention` keeps a query subscribed for this many ms after its last consumer
+ * unmounts, so navigating back renders instantly from live data. Default: 0.
+ *
+ * `persist` saves results to localStorage so the next visit renders the last known
+ * data before the WebSocket connects (see persist.ts). Nothing is stored until a
+ * scope is known — from `setupConvexAuth()`, `setQueryCacheScope()` or
+ * `persist: { scope }`. Default: off.
+ */
+export function configureQueryCache({
+  retention,
+  persist,
+}: {
+  retention?: number
+  persist?: boolean | QueryPersistOptions
+}) {
+  if (retention !== undefined) retentionMs = retention
+  if (persist !== undefined) configurePersistence(persist)
+}
+
+/** Get or create the shared entry for this query + args, and take a reference. */
+function acquireQueryEntry<Query extends FunctionReference<"query">>(
+  query: Query,
+  args: FunctionArgs<Query>,
+  initialData: FunctionReturnType<Query> | undefined,
+  { retry, structuralSharing = false, persist = true }: DetachedQueryOptions,
+): QueryEntry {
+  // Sharing and cloning entries hold data differently, so they are kept apart.
+  // The ConvexClient still dedupes them into a single server subscription.
+  const persistKey = queryKeyFor(query, args)
+  const key = persistKey + (structuralSharing ? "#shared" : "")
+  let entry = queryStore.get(key)
+
+  // Opting out is sticky: it also stops entries other consumers already created
+  if (!persist && !unpersisted.has(persistKey)) {
+    unpersisted.add(persistKey)
+    removePersisted(persistKey)
+  }
+
+  if (!entry) {
+    // SSR data is fresher than anything persisted, so it wins
+    const restored =
+      initialData === undefined && !unpersisted.has(persistKey)
+        ? readPersisted(persistKey)
+        : undefined
+    const state = createEntryState(initialData ?? restored, structuralSharing)
+    state.restored = restored !== undefined
+    const client = getConvexClient()
+    const created: QueryEntry = {
+      key,
+      refCount: 0,
+      state,
+      retry,
+      retryAttempt: 0,
+      retryTimer: undefined,
+      evictTimer: undefined,
+      subscribe: () => {
+        if (client.disabled) return
+        clearTimeout(created.retryTimer)
+        created.unsubscribe()
+        // Direct subscription — no $effect needed
+        created.unsubscribe = client.onUpdate(
+          query,
+          args,
+          (result: FunctionReturnType<Query>) => {
+            noteServerMessage()
+            state.data = structuralSharing
+              ? replaceEqualDeep(state.data, result)
+              : structuredClone(result)
+            state.error = undefined
+            state.restored = false
+            state.version++
+            created.retryAttempt = 0
+            if (!unpersisted.has(persistKey)) writePersisted(persistKey, result)
+          },
+          (e: Error) => {
+            state.error = e
+            state.version++
+
+            const wait = retryDelay(created.retry, created.retryAttempt)
+            if (wait !== undefined) {
+              created.retryAttempt++
+              created.retryTimer = setTimeout(created.subscribe, wait)
+            }
+          },
+        )
+      },
+      unsubscribe: () => {},
+    }
+    entry = created
+    entry.subscribe()
+    queryStore.set(key, entry)
+  } else {
+    clearTimeout(entry.evictTimer)
+    entry.evictTimer = undefined
+    if ((entry.state.data === undefined || entry.state.restored) && initialData !== undefined) {
+      entry.state.data = initialData
+      entry.state.restored = false
+    }
+    entry.retry ??= retry
+  }
+
+  entry.refCount++
+  return entry
+}
+
+/**
+ * Entry state. $state works outside components — it compiles to raw signals.
+ * Structural sharing keeps `data` in $state.raw: a deep proxy would wrap every
+ * object anew and defeat the identity reuse.
+ */
+function createEntryState(initialData: unknown, raw: boolean): QueryEntry["state"] {
+  let error: Error | undefined = $state.raw(undefined)
+  let version = $state(0)
+  // Raw so layers keep their identity (release removes by reference)
+  let overrides: OverrideLayer[] = $state.raw([])
+  let restored = $state(false)
+  const cell = raw ? createRawCell(initialData) : createDeepCell(initialData)
+  return {
+    get data() {
+      return cell.value
+    },
+    set data(value) {
+      cell.value = value
+    },
+    get error() {
+      return error
+    },
+    set error(value) {
+      error = value
+    },
+    get version() {
+      return version
+    },
+    set version(value) {
+      version = value
+    },
+    get overrides() {
+      return overrides
+    },
+    set overrides(value) {
+      overrides = value
+    },
+    get restored() {
+      return restored
+    },
+    set restored(value) {
+      restored = value
+    },
+  }
+}
+
+function createDeepCell(initial: unknown): { value: unknown } {
+  let value = $state(initial)
+  return {
+    get value() {
+      return value
+    },
+    set value(next) {
+      value = next
+    },
+  }
+}
+
+function createRawCell(initial: unknown): { value: unknown } {
+  let value = $state.raw(initial)
+  return {
+    get value() {
+      return value
+    },
+    set value(next) {
+      value = next
+    },
+  }
+}
+
+/** Drop a reference; unsubscribes once the last consumer is gone and retention expires. */
+function releaseQueryEntry(entry: QueryEntry) {
+  entry.refCount--
+  if (entry.refCount > 0) return
+  // Always deferred — an args flip (release + re-acquire in one tick) keeps the subscription
+  entry.evictTimer = setTimeout(() => {
+    if (entry.refCount > 0) return
+    clearTimeout(entry.retryTimer)
+    entry.unsubscribe()
+    if (queryStore.get(entry.key) === entry) queryStore.delete(entry.key)
+  }, retentionMs)
+}
+
+/**
+ * Push an optimistic update onto the entry's override stack. Every consumer of the
+ * entry sees it, re-applied on top of each server push until released. Releasing
+ * one layer leaves the others in place.
+ */
+function pushOverride(entry: QueryEntry, update: (current: unknown) => unknown): () => void {
+  const layer: OverrideLayer = { update }
+  entry.state.overrides = [...entry.state.overrides, layer]
+  return () => {
+    entry.state.overrides = entry.state.overrides.filter((l) => l !== layer)
+  }
+}
+
+/** Server value with the override stack applied (errors and loading pass through). */
+function applyOverrides(entry: QueryEntry, value: unknown): unknown {
+  if (value === undefined || value instanceof Error) return value
+  return entry.state.overrides.reduce<unknown>((current, layer) => layer.update(current), value)
+}
+
+/**
+ * Per-consumer `set()` value. Stays active until the shared
+ * entry receives its next server push (version changes).
+ */
+function createManualValue<T>(getEntry: () => QueryEntry | undefined) {
+  let value: T | undefined = $state.raw(undefined)
+  let version: number | undefined = $state(undefined)
+
+  return {
+    get active() {
+      const entry = getEntry()
+      return entry !== undefined && version === entry.state.version
+    },
+    get value() {
+      return value
+    },
+    set(next: T) {
+      const entry = getEntry()
+      if (!entry) return
+      value = next
+      version = entry.state.version
+    },
+  }
+}
+
 // ============================================================================
 // Main
 // ============================================================================
@@ -86,142 +422,99 @@ const SKIP = Symbol("convex.query.skip")
  * ```ts
  * const user = convexQuery(api.users.get, () => userId ? { id: userId } : "skip")
  * ```
+ *
+ * Awaitable — pairs with `<svelte:boundary>` pending / failed snippets:
+ * ```svelte
+ * {#await tasks then list}{list.length} tasks{/await}
+ * ```
+ * A skipped query stays pending until it is un-skipped and loads.
+ *
+ * Components querying the same function + args share one subscription and one
+ * copy of the data (see `configureQueryCache`).
  */
 export function convexQuery<Query extends FunctionReference<"query">>(
   query: Query,
   args: ArgsOrSkip<Query> = {} as FunctionArgs<Query>,
   options: ConvexQueryOptions<Query> | (() => ConvexQueryOptions<Query>) = {},
-): ConvexQueryResult<Query> {
-  const client = getConvexClient()
-
+): AwaitableQueryResult<Query> {
   if (typeof query === "string") {
     throw new Error("[convex] query must be a FunctionReference, not a string")
   }
 
   // --- reactive state ---
-  const state: {
-    result: FunctionReturnType<Query> | Error | undefined
-    lastResult: FunctionReturnType<Query> | Error | undefined
-    argsForLastResult: FunctionArgs<Query> | Skip | undefined
-    haveArgsEverChanged: boolean
-    manualOverride: FunctionReturnType<Query> | undefined
-    hasManualOverride: boolean
-    refreshCounter: number
-  } = $state({
-    result: parseOptions(options).initialData,
-    lastResult: undefined,
-    argsForLastResult: undefined,
-    haveArgsEverChanged: false,
-    manualOverride: undefined,
-    hasManualOverride: false,
-    refreshCounter: 0,
-  })
+  let entry: QueryEntry | undefined = $state.raw(undefined)
+  let lastResult: FunctionReturnType<Query> | Error | undefined = $state.raw(undefined)
+  let disposed = $state(false)
+  const manual = createManualValue<FunctionReturnType<Query>>(() => entry)
+
+  const initialArgs = parseArgs(args)
 
-  // --- subscription effect ---
+  // --- subscription effect: hold a reference to the entry for the current args ---
   $effect(() => {
-    // Touch refreshCounter to allow refresh() to force re-subscribe
-    void state.refreshCounter
+    if (disposed) return
     const argsObject = parseArgs(args)
 
     if (argsObject === SKIP) {
-      state.result = undefined
-      state.argsForLastResult = SKIP
+      entry = undefined
       return
     }
 
-    const unsubscribe = client.onUpdate(
-      query,
-      argsObject,
-      (dataFromServer: FunctionReturnType<Query>) => {
-        const copy = structuredClone(dataFromServer)
-        state.result = copy
-        state.argsForLastResult = argsObject
-        state.lastResult = copy
-        // Clear manual override when server data arrives
-        state.hasManualOverride = false
-      },
-      (e: Error) => {
-        state.result = e
-        state.argsForLastResult = argsObject
-        state.lastResult = structuredClone(e)
-        state.hasManualOverride = false
-      },
-    )
+    const opts = untrack(() => parseOptions(options))
+    const seed = argsKeyEqual(initialArgs, argsObject) ? opts.initialData : undefined
+    const acquired = acquireQueryEntry(query, argsObject, seed, opts)
+    entry = acquired
 
-    return unsubscribe
+    return () => releaseQueryEntry(acquired)
   })
 
   // --- derived computations ---
   const currentArgs = $derived(parseArgs(args))
-  const initialArgs = parseArgs(args)
   const isSkipped = $derived(currentArgs === SKIP)
-
-  const sameArgsAsLastResult = $derived(
-    state.argsForLastResult !== undefined &&
-      currentArgs !== SKIP &&
-      state.argsForLastResult !== SKIP &&
-      jsonEqualArgs(
-        state.argsForLastResult as FunctionArgs<Query>,
-        currentArgs as FunctionArgs<Query>,
-      ),
+  const currentKey = $derived(
+    currentArgs === SKIP
+      ? undefined
+      : queryKeyFor(query, currentArgs as FunctionArgs<Query>) +
+          (parseOptions(options).structuralSharing ? "#shared" : ""),
   )
 
-  const staleAllowed = $derived(!!(parseOptions(options).keepPreviousData && state.lastResult))
-
-  // Track args changes to stop using initialData
-  $effect(() => {
-    if (!$state.snapshot(state).haveArgsEverChanged) {
-      const curr = parseArgs(args)
-      if (!argsKeyEqual(initialArgs, curr)) {
-        state.haveArgsEverChanged = true
-        const opts = parseOptions(options)
-        if (opts.initialData !== undefined) {
-          state.argsForLastResult =
-            initialArgs === SKIP ? SKIP : ($state.snapshot(initialArgs) as FunctionArgs<Query>)
-          state.lastResult = opts.initialData
-        }
-      }
+  // Entry value for the current args (the entry lags one effect run behind args changes)
+  const entryResult = $derived.by(() => {
+    if (isSkipped) return undefined
+    if (!entry || entry.key !== currentKey) {
+      // Not subscribed yet (first render, SSR) — fall back to initialData for the initial args
+      return argsKeyEqual(initialArgs, currentArgs)
+        ? (parseOptions(options).initialData as FunctionReturnType<Query> | undefined)
+        : undefined
     }
+    return applyOverrides(entry, entry.state.error ?? entry.state.data) as
+      | FunctionReturnType<Query>
+      | Error
+      | undefined
   })
 
-  // Sync result from local cache
-  const syncResult = $derived.by(() => {
-    if (isSkipped) return undefined
-
-    const opts = parseOptions(options)
-    if (opts.initialData && !state.haveArgsEverChanged) {
-      return state.result
-    }
+  // Remember the last value we saw, for keepPreviousData
+  $effect(() => {
+    if (entryResult !== undefined) lastResult = entryResult
+  })
 
-    let value: FunctionReturnType<Query> | Error | undefined
-    try {
-      value = client.disabled
-        ? undefined
-        : (client.client.localQueryResult(
-            getFunctionName(query),
-            currentArgs as FunctionArgs<Query>,
-          ) as FunctionReturnType<Query> | undefined)
-    } catch (e) {
-      if (!(e instanceof Error)) throw e
-      value = e
-    }
+  const staleAllowed = $derived(!!(parseOptions(options).keepPreviousData && lastResult))
 
-    // Touch reactive state.result so updates retrigger
-    void state.result
-    return value
+  const resolvedResult = $derived.by(() => {
+    if (isSkipped) return undefined
+    if (manual.active) return manual.value
+    return entryResult !== undefined ? entryResult : staleAllowed ? lastResult : undefined
   })
 
-  const resolvedResult = $derived.by(() => {
-    if (state.hasManualOverride) return state.manualOverride
-    return syncResult !== undefined ? syncResult : staleAllowed ? state.lastResult : undefined
+  // Persisted data shown before the live subscription confirmed it
+  const isRestored = $derived.by(() => {
+    const current = entry as QueryEntry | undefined
+    if (isSkipped || manual.active || !current || current.key !== currentKey) return false
+    return current.state.restored
   })
 
   const isStale = $derived(
-    !isSkipped &&
-      syncResult === undefined &&
-      staleAllowed &&
-      !sameArgsAsLastResult &&
-      resolvedResult !== undefined,
+    isRestored ||
+      (!isSkipped && entryResult === undefined && staleAllowed && resolvedResult !== undefined),
   )
 
   const data = $derived.by(() => {
@@ -264,87 +557,113 @@ export function convexQuery<Query extends FunctionReference<"query">>(
       return data !== undefined
     },
 
+    get hasPendingOverrides() {
+      return !isSkipped && entry !== undefined && entry.state.overrides.length > 0
+    },
+
     // Methods
     set(value: FunctionReturnType<Query>) {
-      state.manualOverride = value
-      state.hasManualOverride = true
+      manual.set(value)
     },
 
     async refresh() {
-      state.refreshCounter++
+      if (!entry) return
+      entry.retryAttempt = 0
+      entry.subscribe()
     },
 
     withOverride(update: (current: FunctionReturnType<Query>) => FunctionReturnType<Query>): {
       _key: string
       release: () => void
     } {
-      const currentData = data
-      if (currentData !== undefined) {
-        state.manualOverride = update(currentData)
-        state.hasManualOverride = true
-      }
-      return {
-        _key: queryKey,
-        release: () => {
-          state.hasManualOverride = false
-        },
-      }
+      const release = entry
+        ? pushOverride(entry, update as (current: unknown) => unknown)
+        : () => {}
+      return { _key: queryKey, release }
     },
-  } as ConvexQueryResult<Query>
+
+    dispose() {
+      disposed = true
+    },
+
+    then(onfulfilled, onrejected) {
+      return firstSettled(() => ({ data, error })).then(onfulfilled, onrejected)
+    },
+  } as AwaitableQueryResult<Query>
 }
 
 // ============================================================================
 // Detached query — works OUTSIDE component context (transport.decode, load fns)
 // ============================================================================
 
+/**
+ * Releases a handle's reference once it is garbage collected — i.e. once no
+ * page data (or anything else) points at it after navigation.
+ */
+const detachedFinalizer =
+  typeof FinalizationRegistry !== "undefined"
+    ? new FinalizationRegistry<() => void>((release) => release())
+    : undefined
+
+/**
+ * Built outside createDetachedQuery() so the callback can't reach the handle — the
+ * registry holds it strongly, and a closure sharing the handle's scope would keep
+ * the handle alive forever.
+ */
+function makeRelease(entry: QueryEntry): () => void {
+  let released = false
+  return () => {
+    if (released) return
+    released = true
+    releaseQueryEntry(entry)
+  }
+}
+
 /**
  * Create a live Convex subscription without $effect (no component context needed).
  * Used by transport.decode and convexLoad() on client-side navigation.
- * Subscription lives until the ConvexClient is closed.
+ *
+ * Shares its entry with every other consumer of the same query + args. The
+ * reference is released explicitly via `.dispose()`, or automatically once the
+ * handle is garbage collected (e.g. page data dropped after navigation).
  */
 export function createDetachedQuery<Query extends FunctionReference<"query">>(
   query: Query,
   args: FunctionArgs<Query>,
   initialData?: FunctionReturnType<Query>,
+  options: DetachedQueryOptions = {},
 ): ConvexQueryResult<Query> {
-  const client = getConvexClient()
   const queryKey = getFunctionName(query)
-
-  // $state works outside components — it compiles to raw signals
-  let data: FunctionReturnType<Query> | undefined = $state(initialData)
-  let error: Error | undefined = $state(undefined)
-  let manualOverride: FunctionReturnType<Query> | undefined = $state(undefined)
-  let hasManualOverride: boolean = $state(false)
-
-  // Direct subscription — no $effect needed
-  if (!client.disabled) {
-    client.onUpdate(
-      query,
-      args,
-      (result: FunctionReturnType<Query>) => {
-        data = structuredClone(result)
-        hasManualOverride = false
-      },
-      (e: Error) => {
-        error = e
-        hasManualOverride = false
-      },
-    )
+  const entry = acquireQueryEntry(query, args, initialData, options)
+  const state = entry.state as QueryEntry["state"] & {
+    data: FunctionReturnType<Query> | undefined
   }
+  const manual = createManualValue<FunctionReturnType<Query>>(() => entry)
 
-  return {
+  const release = makeRelease(entry)
+  // Unregister token — the handle itself can't be, dispose() would capture it
+  const token = {}
+
+  const data = $derived.by(() => {
+    if (manual.active) return manual.value
+    return applyOverrides(entry, state.data) as FunctionReturnType<Query> | undefined
+  })
+
+  const result = {
     get data() {
-      if (hasManualOverride) return manualOverride
       return data
     },
     get isLoading() {
-      return error === undefined && data === undefined
+      return state.error === undefined && state.data === undefined
     },
     get error() {
-      return error
+      return state.error
     },
     get isStale() {
-      return false
+      return state.restored && !manual.active
+    },
+    get hasPendingOverrides() {
+      return state.overrides.length > 0
     },
     get current() {
       return this.data
@@ -353,29 +672,29 @@ export function createDetachedQuery<Query extends FunctionReference<"query">>(
       return this.isLoading
     },
     get ready() {
-      return data !== undefined
+      return state.data !== undefined
     },
     set(value: FunctionReturnType<Query>) {
-      manualOverride = value
-      hasManualOverride = true
+      manual.set(value)
     },
     async refresh() {
-      // Detached queries can't easily re-subscribe; no-op for now
+      entry.retryAttempt = 0
+      entry.subscribe()
     },
     withOverride(update: (current: FunctionReturnType<Query>) => FunctionReturnType<Query>) {
-      const currentData = data
-      if (currentData !== undefined) {
-        manualOverride = update(currentData)
-        hasManualOverride = true
-      }
       return {
         _key: queryKey,
-        release: () => {
-          hasManualOverride = false
-        },
+        release: pushOverride(entry, update as (current: unknown) => unknown),
       }
     },
+    dispose() {
+      detachedFinalizer?.unregister(token)
+      release()
+    },
   } as ConvexQueryResult<Query>
+
+  detachedFinalizer?.register(result, release, token)
+  return result
 }
 
 // ============================================================================
@@ -398,6 +717,46 @@ function parseOptions<Query extends FunctionReference<"query">>(
   return $state.snapshot(resolved) as ConvexQueryOptions<Query>
 }
 
+/**
+ * Resolves with the first defined data, rejects with the first error. Settles at
+ * once when already loaded; otherwise watches `read` in an effect root until then.
+ */
+function firstSettled<T>(
+  read: () => { data: T | undefined; error: Error | undefined },
+): Promise<T> {
+  const now = untrack(read)
+  if (now.error !== undefined) return Promise.reject(now.error)
+  if (now.data !== undefined) return Promise.resolve(now.data)
+
+  return new Promise((resolve, reject) => {
+    const stop = $effect.root(() => {
+      $effect(() => {
+        const { data, error } = read()
+        if (error !== undefined) reject(error)
+        else if (data !== undefined) resolve(data)
+        else return
+        // Can't destroy the root from inside its own effect run
+        queueMicrotask(() => stop())
+      })
+    })
+  })
+}
+
+/** Backoff delay for the given attempt, or undefined when retrying is off / exhausted. */
+function retryDelay(option: RetryOption | undefined, attempt: number): number | undefined {
+  if (!option) return undefined
+  const { attempts = 3, delay = 1000, maxDelay = 30_000 } = option === true ? {} : option
+  if (attempt >= attempts) return undefined
+  return Math.min(delay * 2 ** attempt, maxDelay)
+}
+
+function queryKeyFor<Query extends FunctionReference<"query">>(
+  query: Query,
+  args: FunctionArgs<Query>,
+): string {
+  return `${getFunctionName(query)}:${JSON.stringify(convexToJson(args as never))}`
+}
+
 function jsonEqualArgs(a: Record<string, unknown>, b: Record<string, unknown>): boolean {
   return JSON.stringify(convexToJson(a as never)) === JSON.stringify(convexToJson(b as never))
 }
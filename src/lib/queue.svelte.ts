@@ -0,0 +1,320 @@
+/**
+ * Durable command queue — opt-in offline support for convexCommand().
+ *
+ * Queued calls are persisted to IndexedDB before they are sent, then executed
+ * one at a time, in order, whenever the WebSocket is connected. Anything left
+ * over after a reload (or a crash) is replayed on the next visit.
+ *
+ * Usage:
+ * ```ts
+ * const addNote = convexCommand(api.notes.add, {
+ *   queue: {
+ *     onConflict: (item, error) => toast(`Could not save: ${error.data}`),
+ *     onError: (item, error) => report(error),
+ *   },
+ * })
+ * addNote.queued // reactive list of calls not yet confirmed by the server
+ * ```
+ *
+ * Tabs share the queue, but only one replays at a time (a Web Lock), so a leftover
+ * call goes out once, not once per open tab.
+ *
+ * Replayed calls must be safe to run twice: a call that reached the server right
+ * before a reload is replayed again, because its result never came back.
+ */
+import type { ConvexClient, OptimisticUpdate } from "convex/browser"
+import type { FunctionReference } from "convex/server"
+import { makeFunctionReference } from "convex/server"
+import { ConvexError, convexToJson, jsonToConvex, type JSONValue, type Value } from "convex/values"
+import { getConvexClient, intercept, noteServerMessage } from "./client.svelte.js"
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A call waiting in the queue */
+export interface QueuedCommand {
+  /** Queue position — assigned by IndexedDB's key generator, so increasing and unique across tabs */
+  readonly id: number
+  /** Convex function name (e.g. `"tasks:create"`) */
+  readonly name: string
+  readonly type: "mutation" | "action"
+  readonly args: Record<string, unknown>
+  /** `Date.now()` when the call was queued */
+  readonly enqueuedAt: number
+  /** Failed attempts so far (conflicts that were retried) */
+  readonly attempts: number
+}
+
+/** Per-command callbacks for calls that fail during replay */
+export interface CommandQueueOptions {
+  /**
+   * The server rejected the call with a `ConvexError` — typically because the data
+   * changed while offline. Return `"retry"` to run it again (with backoff, up to
+   * 5 attempts), otherwise it is dropped.
+   */
+  onConflict?: (item: QueuedCommand, error: ConvexError<JSONValue>) => "retry" | "drop" | void
+  /** Any other failure. The call is dropped. */
+  onError?: (item: QueuedCommand, error: unknown) => void
+}
+
+/** Shape stored in IndexedDB — args as Convex JSON so every Convex value round-trips */
+type StoredCommand = Omit<QueuedCommand, "args"> & { args: JSONValue }
+
+// ============================================================================
+// State
+// ============================================================================
+
+const DB_NAME = "convex-sveltekit-commands"
+const STORE = "commands"
+/** Conflicts retried via onConflict give up after this many attempts */
+const MAX_ATTEMPTS = 5
+
+// $state works outside components — it compiles to raw signals
+let items: QueuedCommand[] = $state.raw([])
+/** Last id handed out without IndexedDB */
+let memoryId = 0
+// eslint-disable-next-line svelte/prefer-svelte-reactivity -- internal bookkeeping, not reactive state
+const memoryOnly = new Set<number>()
+
+// eslint-disable-next-line svelte/prefer-svelte-reactivity -- internal registry, not reactive state
+const handlers = new Map<string, CommandQueueOptions>()
+/** In-session callers awaiting a queued call — lost on reload, replay still happens */
+interface Waiter {
+  resolve: (value: unknown) => void
+  reject: (e: unknown) => void
+  optimisticUpdate?: OptimisticUpdate<Record<string, Value>>
+}
+
+// eslint-disable-next-line svelte/prefer-svelte-reactivity -- in-session promises, not reactive state
+const waiting = new Map<number, Waiter>()
+
+let loaded: Promise<void> | undefined
+let draining = false
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Load persisted calls and start replaying them. Runs automatically the first
+ * time a queued command is created — call it from `hooks.client.ts` (after auth
+ * is set up) to replay leftovers before any page uses the command.
+ */
+export async function replayCommandQueue(): Promise<void> {
+  loaded ??= load()
+  await loaded
+  void drain()
+}
+
+/** Register replay callbacks for a function (later ones replace earlier) and start replay. */
+export function registerQueueHandlers(name: string, options?: CommandQueueOptions) {
+  if (options) handlers.set(name, options)
+  void replayCommandQueue()
+}
+
+/** Reactive list of queued calls for a function */
+export function queuedCommands(name: string): QueuedCommand[] {
+  return items.filter((item) => item.name === name)
+}
+
+/**
+ * Persist a call and queue it. Resolves with its result once the server confirms it.
+ * `optimisticUpdate` applies when the call is sent in this session; replays after a
+ * reload run without it.
+ */
+export async function enqueueCommand(
+  name: string,
+  type: "mutation" | "action",
+  args: Record<string, unknown>,
+  optimisticUpdate?: OptimisticUpdate<Record<string, Value>>,
+): Promise<unknown> {
+  loaded ??= load()
+  await loaded
+
+  const item = await insert({ name, type, args, enqueuedAt: Date.now(), attempts: 0 })
+  items = [...items, item]
+
+  const result = new Promise((resolve, reject) =>
+    waiting.set(item.id, { resolve, reject, optimisticUpdate }),
+  )
+  void drain()
+  return result
+}
+
+// ============================================================================
+// Replay
+// ============================================================================
+
+/** Execute queued calls one by one, in order, while connected. */
+async function drain() {
+  if (draining) return
+  draining = true
+  try {
+    const client = getConvexClient()
+    if (client.disabled) return
+    // Calls queued while the lock is being released start another round
+    while (items.length > 0) await exclusive(() => replay(client))
+  } finally {
+    draining = false
+  }
+}
+
+/** This tab's turn holding the lock: send everything queued, then release. */
+async function replay(client: ConvexClient) {
+  await dropSentElsewhere()
+  while (items.length > 0) {
+    await waitForConnection(client)
+    const item = items[0]!
+    const ref = makeFunctionReference(item.name) as FunctionReference<"mutation" | "action">
+
+    try {
+      const value = await intercept({ name: item.name, args: item.args, type: item.type }, () =>
+        item.type === "action"
+          ? client.action(ref as FunctionReference<"action">, item.args)
+          : client.mutation(ref as FunctionReference<"mutation">, item.args, {
+              optimisticUpdate: waiting.get(item.id)?.optimisticUpdate,
+            }),
+      )
+      noteServerMessage()
+      await remove(item)
+      waiting.get(item.id)?.resolve(value)
+    } catch (e) {
+      const options = handlers.get(item.name)
+      if (e instanceof ConvexError) {
+        const failed = { ...item, attempts: item.attempts + 1 }
+        if (options?.onConflict?.(failed, e) === "retry" && failed.attempts < MAX_ATTEMPTS) {
+          items = [failed, ...items.slice(1)]
+          await persist(failed)
+          // Back off — a conflict that persists must not re-send in a tight loop
+          await sleep(Math.min(30_000, 1000 * 2 ** (failed.attempts - 1)))
+          continue
+        }
+      } else {
+        options?.onError?.(item, e)
+      }
+      await remove(item)
+      waiting.get(item.id)?.reject(e)
+    }
+    waiting.delete(item.id)
+  }
+}
+
+/** Run `fn` while no other tab replays. Without Web Locks (SSR, old browsers) it just runs. */
+async function exclusive(fn: () => Promise<void>): Promise<void> {
+  if (typeof navigator === "undefined" || !navigator.locks) return fn()
+  await navigator.locks.request(DB_NAME, fn)
+}
+
+/** Forget calls no longer stored — the tab that held the lock before us sent them. */
+async function dropSentElsewhere() {
+  const keys = await transact("readonly", (store) => store.getAllKeys())
+  if (!keys) return
+  const stored = new Set(keys)
+  const gone = items.filter((item) => !stored.has(item.id) && !memoryOnly.has(item.id))
+  for (const item of gone) {
+    // Its result went to the other tab; the call itself went through
+    waiting.get(item.id)?.resolve(undefined)
+    waiting.delete(item.id)
+  }
+  items = items.filter((item) => !gone.includes(item))
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function waitForConnection(client: ConvexClient): Promise<void> {
+  if (client.connectionState().isWebSocketConnected) return Promise.resolve()
+  return new Promise((resolve) => {
+    const unsubscribe = client.subscribeToConnectionState((state) => {
+      if (!state.isWebSocketConnected) return
+      unsubscribe()
+      resolve()
+    })
+  })
+}
+
+// ============================================================================
+// IndexedDB persistence (in-memory only where IndexedDB is unavailable)
+// ============================================================================
+
+let db: Promise<IDBDatabase | null> | undefined
+
+function openDb(): Promise<IDBDatabase | null> {
+  db ??= new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") return resolve(null)
+    const request = indexedDB.open(DB_NAME, 2)
+    request.onupgradeneeded = (event) => {
+      const database = request.result
+      if (event.oldVersion < 1) {
+        database.createObjectStore(STORE, { keyPath: "id", autoIncrement: true })
+        return
+      }
+      // v1 ids were assigned per tab, so two tabs could overwrite each other's calls.
+      // autoIncrement can't be switched on in place: copy into a new store.
+      const old = request.transaction!.objectStore(STORE).getAll()
+      old.onsuccess = () => {
+        database.deleteObjectStore(STORE)
+        const store = database.createObjectStore(STORE, { keyPath: "id", autoIncrement: true })
+        // Explicit ids also move the key generator past them
+        for (const item of old.result as StoredCommand[]) store.put(item)
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => resolve(null)
+  })
+  return db
+}
+
+function transact<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T | undefined> {
+  return openDb().then(
+    (database) =>
+      new Promise((resolve) => {
+        if (!database) return resolve(undefined)
+        const request = run(database.transaction(STORE, mode).objectStore(STORE))
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+          console.error("[convexCommand] queue storage error:", request.error)
+          resolve(undefined)
+        }
+      }),
+  )
+}
+
+async function load() {
+  const stored = (await transact("readonly", (store) => store.getAll())) as
+    | StoredCommand[]
+    | undefined
+  const restored = (stored ?? []).map((item) => ({
+    ...item,
+    args: jsonToConvex(item.args) as Record<string, unknown>,
+  }))
+  // Keys come back in ascending order, which is enqueue order
+  items = [...restored, ...items]
+}
+
+/** Store a new call and return it with the id the store assigned. */
+async function insert(fields: Omit<QueuedCommand, "id">): Promise<QueuedCommand> {
+  const stored: Omit<StoredCommand, "id"> = { ...fields, args: convexToJson(fields.args as never) }
+  const key = await transact("readwrite", (store) => store.add(stored))
+  // Without IndexedDB (or when the write failed) the queue lives in memory only
+  if (typeof key === "number") return { ...fields, id: key }
+  memoryId = Math.max(memoryId, ...items.map((item) => item.id)) + 1
+  memoryOnly.add(memoryId)
+  return { ...fields, id: memoryId }
+}
+
+async function persist(item: QueuedCommand) {
+  const stored: StoredCommand = { ...item, args: convexToJson(item.args as never) }
+  await transact("readwrite", (store) => store.put(stored))
+}
+
+async function remove(item: QueuedCommand) {
+  items = items.filter((i) => i.id !== item.id)
+  memoryOnly.delete(item.id)
+  await transact("readwrite", (store) => store.delete(item.id))
+}
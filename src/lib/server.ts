@@ -8,7 +8,8 @@
  */
 import { ConvexHttpClient } from "convex/browser"
 import type { FunctionReference, FunctionArgs, FunctionReturnType } from "convex/server"
-import { getConvexUrl } from "./client.svelte.js"
+import { getFunctionName } from "convex/server"
+import { getConvexUrl, intercept } from "./client.svelte.js"
 
 let _httpClient: ConvexHttpClient | null = null
 
@@ -53,18 +54,22 @@ export async function serverQuery<Query extends FunctionReference<"query">>(
   return (await getHttpClient()).query(ref, args)
 }
 
-/** One-shot server-side mutation. Auth-aware via request context. */
+/** One-shot server-side mutation. Auth-aware via request context. Runs the interceptor chain. */
 export async function serverMutation<Mutation extends FunctionReference<"mutation">>(
   ref: Mutation,
   args: FunctionArgs<Mutation>,
 ): Promise<FunctionReturnType<Mutation>> {
-  return (await getHttpClient()).mutation(ref, args)
+  return intercept({ name: getFunctionName(ref), args, type: "mutation" }, async () =>
+    (await getHttpClient()).mutation(ref, args),
+  )
 }
 
-/** One-shot server-side action. Auth-aware via request context. */
+/** One-shot server-side action. Auth-aware via request context. Runs the interceptor chain. */
 export async function serverAction<Action extends FunctionReference<"action">>(
   ref: Action,
   args: FunctionArgs<Action>,
 ): Promise<FunctionReturnType<Action>> {
-  return (await getHttpClient()).action(ref, args)
+  return intercept({ name: getFunctionName(ref), args, type: "action" }, async () =>
+    (await getHttpClient()).action(ref, args),
+  )
 }
@@ -0,0 +1,102 @@
+/**
+ * Structural sharing for Convex query results.
+ *
+ * `replaceEqualDeep(prev, next)` returns a value deep-equal to `next` that reuses
+ * every subtree of `prev` that did not change. Keyed `{#each}` blocks then only
+ * re-render rows whose object identity actually changed.
+ *
+ * Arrays of Convex documents are matched by `_id`, so inserts, deletes and
+ * reorders keep the identity of untouched documents. Other arrays match by index.
+ *
+ * The result never aliases `next` — changed subtrees are copied — so it is safe
+ * to hand values straight from the ConvexClient's local cache.
+ */
+
+/**
+ * Merge `next` into `prev`, keeping `prev`'s identity wherever the data is unchanged.
+ *
+ * ```ts
+ * const shared = replaceEqualDeep(previousTasks, tasksFromServer)
+ * shared === previousTasks // true if nothing changed
+ * shared[3] === previousTasks[3] // true if task 3 is unchanged
+ * ```
+ */
+export function replaceEqualDeep<T>(prev: unknown, next: T): T {
+  return share(prev, next) as T
+}
+
+function share(prev: unknown, next: unknown): unknown {
+  if (Array.isArray(next)) {
+    const prevArray = Array.isArray(prev) ? prev : undefined
+    const byId = prevArray ? indexById(prevArray) : undefined
+    let same = prevArray !== undefined && prevArray.length === next.length
+
+    const out = next.map((item, i) => {
+      const id = documentId(item)
+      const match = byId && id !== undefined ? byId.get(id) : prevArray?.[i]
+      const value = share(match, item)
+      if (value !== prevArray?.[i]) same = false
+      return value
+    })
+    return same ? prevArray : out
+  }
+
+  if (isPlainObject(next)) {
+    const prevObject = isPlainObject(prev) ? prev : undefined
+    const keys = Object.keys(next)
+    let same = prevObject !== undefined && Object.keys(prevObject).length === keys.length
+
+    const out: Record<string, unknown> = {}
+    for (const key of keys) {
+      const prevValue = prevObject?.[key]
+      const value = share(prevValue, next[key])
+      out[key] = value
+      if (prevObject === undefined || value !== prevValue || !Object.hasOwn(prevObject, key)) {
+        same = false
+      }
+    }
+    return same ? prevObject : out
+  }
+
+  if (next instanceof ArrayBuffer) {
+    return prev instanceof ArrayBuffer && buffersEqual(prev, next) ? prev : next.slice(0)
+  }
+
+  // Primitives (string, number, boolean, bigint, null, undefined)
+  return Object.is(prev, next) ? prev : next
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== "object") return false
+  const proto = Object.getPrototypeOf(value)
+  return proto === Object.prototype || proto === null
+}
+
+function documentId(value: unknown): string | undefined {
+  return isPlainObject(value) && typeof value._id === "string" ? value._id : undefined
+}
+
+/** Index an array of documents by `_id`. Undefined if it isn't a document array. */
+function indexById(array: unknown[]): Map<string, unknown> | undefined {
+  if (array.length === 0 || documentId(array[0]) === undefined) return undefined
+  const map = new Map<string, unknown>()
+  for (const item of array) {
+    const id = documentId(item)
+    if (id !== undefined) map.set(id, item)
+  }
+  return map
+}
+
+function buffersEqual(a: ArrayBuffer, b: ArrayBuffer): boolean {
+  if (a.byteLength !== b.byteLength) return false
+  const x = new Uint8Array(a)
+  const y = new Uint8Array(b)
+  for (let i = 0; i < x.length; i++) {
+    if (x[i] !== y[i]) return false
+  }
+  return true
+}
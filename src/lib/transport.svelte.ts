@@ -1,5 +1,5 @@
 /**
- * SSR bridge — convexLoad() + transport encode/decode.
+ * SSR bridge — convexLoad() / convexLoadPaginated() + transport encode/decode.
  *
  * On the server, convexLoad fetches via ConvexHttpClient (auth-aware).
  * On the client, transport.decode upgrades it to a live subscription.
@@ -9,7 +9,18 @@ import type { FunctionReference, FunctionArgs } from "convex/server"
 import { getFunctionName, makeFunctionReference } from "convex/server"
 import { ConvexHttpClient } from "convex/browser"
 import { getConvexUrl } from "./client.svelte.js"
-import { createDetachedQuery, type ConvexQueryResult } from "./query.svelte.js"
+import {
+  createDetachedQuery,
+  type ConvexQueryResult,
+  type DetachedQueryOptions,
+} from "./query.svelte.js"
+import {
+  createDetachedPaginatedQuery,
+  type ConvexPaginatedQueryResult,
+  type PaginatedQueryArgs,
+  type PaginatedQueryItem,
+  type PaginatedQueryReference,
+} from "./pagination.svelte.js"
 
 const IS_BROWSER = typeof globalThis.document !== "undefined"
 
@@ -25,6 +36,20 @@ export class ConvexLoadResult<T = unknown> {
     public readonly refName: string,
     public readonly args: Record<string, unknown>,
     public readonly data: T,
+    public readonly options: DetachedQueryOptions = {},
+  ) {}
+}
+
+/** Marker class for paginated loads — carries the SSR-rendered first page */
+export class ConvexPaginatedLoadResult<T = unknown> {
+  readonly __convexPaginatedLoad = true
+
+  constructor(
+    public readonly refName: string,
+    public readonly args: Record<string, unknown>,
+    public readonly initialNumItems: number,
+    public readonly page: T[],
+    public readonly isDone: boolean,
   ) {}
 }
 
@@ -47,6 +72,16 @@ async function getTokenFromRequest(): Promise<string | null> {
   }
 }
 
+/** HTTP client for load functions — carries the request's auth token on the server. */
+async function getLoadClient(): Promise<ConvexHttpClient> {
+  const httpClient = new ConvexHttpClient(getConvexUrl())
+  if (!IS_BROWSER) {
+    const token = await getTokenFromRequest()
+    if (token) httpClient.setAuth(token)
+  }
+  return httpClient
+}
+
 // ============================================================================
 // convexLoad — for load functions
 // ============================================================================
@@ -65,23 +100,21 @@ async function getTokenFromRequest(): Promise<string | null> {
  *   tasks: await convexLoad(api.tasks.get, {})
  * })
  * ```
+ *
+ * `options` (`retry`, `structuralSharing`) configure the live query and are carried
+ * across the SSR boundary.
  */
 export async function convexLoad<Query extends FunctionReference<"query">>(
   ref: Query,
   args: FunctionArgs<Query>,
+  options: DetachedQueryOptions = {},
 ): Promise<ConvexQueryResult<Query>> {
-  const httpClient = new ConvexHttpClient(getConvexUrl())
-
-  if (!IS_BROWSER) {
-    // Server-side: set auth token if available
-    const token = await getTokenFromRequest()
-    if (token) httpClient.setAuth(token)
-  }
+  const httpClient = await getLoadClient()
 
   if (IS_BROWSER) {
     // Client-side navigation: fetch initial data, then create live subscription
     const initialData = await httpClient.query(ref, args)
-    return createDetachedQuery(ref, args, initialData) as ConvexQueryResult<Query>
+    return createDetachedQuery(ref, args, initialData, options) as ConvexQueryResult<Query>
   }
 
   // Server-side: HTTP fetch, wrap in ConvexLoadResult for transport.
@@ -92,9 +125,56 @@ export async function convexLoad<Query extends FunctionReference<"query">>(
     name,
     args as Record<string, unknown>,
     data,
+    options,
   ) as unknown as ConvexQueryResult<Query>
 }
 
+// ============================================================================
+// convexLoadPaginated — paginated variant for load functions
+// ============================================================================
+
+/**
+ * Fetch the first page of a paginated Convex query in a load function.
+ * Same server/client split as `convexLoad()`: the first page is SSR-rendered,
+ * then upgraded to a live paginated subscription that supports `loadMore()`.
+ *
+ * ```ts
+ * // +page.ts
+ * export const load = async () => ({
+ *   messages: await convexLoadPaginated(api.messages.list, {}, { initialNumItems: 20 })
+ * })
+ * ```
+ */
+export async function convexLoadPaginated<Query extends PaginatedQueryReference>(
+  ref: Query,
+  args: PaginatedQueryArgs<Query>,
+  options: { initialNumItems: number },
+): Promise<ConvexPaginatedQueryResult<Query>> {
+  const { initialNumItems } = options
+  const httpClient = await getLoadClient()
+  const { page, isDone } = await httpClient.query(ref as PaginatedQueryReference, {
+    ...args,
+    paginationOpts: { numItems: initialNumItems, cursor: null },
+  })
+
+  if (IS_BROWSER) {
+    // Client-side navigation: seed with the first page, then go live
+    return createDetachedPaginatedQuery(ref, args, initialNumItems, {
+      page: page as PaginatedQueryItem<Query>[],
+      isDone,
+    })
+  }
+
+  // Server-side: transport.decode replaces this with a live paginated query on the client.
+  return new ConvexPaginatedLoadResult(
+    getFunctionName(ref),
+    args as Record<string, unknown>,
+    initialNumItems,
+    page,
+    isDone,
+  ) as unknown as ConvexPaginatedQueryResult<Query>
+}
+
 // ============================================================================
 // Transport encode/decode — for hooks.ts
 // ============================================================================
@@ -102,15 +182,20 @@ export async function convexLoad<Query extends FunctionReference<"query">>(
 /** Encode a ConvexLoadResult for serialization across the SSR boundary.
  *  Uses duck-type check (`__convexLoad`) instead of `instanceof` because
  *  Vite HMR can create separate class identities for the same module. */
-export function encodeConvexLoad(
-  value: unknown,
-): false | { refName: string; args: Record<string, unknown>; data: unknown } {
+export function encodeConvexLoad(value: unknown):
+  | false
+  | {
+      refName: string
+      args: Record<string, unknown>
+      data: unknown
+      options: DetachedQueryOptions
+    } {
   if (
     value instanceof ConvexLoadResult ||
     (value != null && typeof value === "object" && "__convexLoad" in value)
   ) {
     const v = value as ConvexLoadResult
-    return { refName: v.refName, args: v.args, data: v.data }
+    return { refName: v.refName, args: v.args, data: v.data, options: v.options }
   }
   return false
 }
@@ -121,7 +206,50 @@ export function decodeConvexLoad(encoded: {
   refName: string
   args: Record<string, unknown>
   data: unknown
+  options?: DetachedQueryOptions
 }): ConvexQueryResult<FunctionReference<"query">> {
   const ref = makeFunctionReference<"query">(encoded.refName)
-  return createDetachedQuery(ref, encoded.args, encoded.data)
+  return createDetachedQuery(ref, encoded.args, encoded.data, encoded.options)
+}
+
+/** Encode a ConvexPaginatedLoadResult for serialization across the SSR boundary.
+ *  Duck-type check (`__convexPaginatedLoad`) for the same HMR reason as encodeConvexLoad. */
+export function encodeConvexPaginatedLoad(value: unknown):
+  | false
+  | {
+      refName: string
+      args: Record<string, unknown>
+      initialNumItems: number
+      page: unknown[]
+      isDone: boolean
+    } {
+  if (
+    value instanceof ConvexPaginatedLoadResult ||
+    (value != null && typeof value === "object" && "__convexPaginatedLoad" in value)
+  ) {
+    const v = value as ConvexPaginatedLoadResult
+    return {
+      refName: v.refName,
+      args: v.args,
+      initialNumItems: v.initialNumItems,
+      page: v.page,
+      isDone: v.isDone,
+    }
+  }
+  return false
+}
+
+/** Decode a serialized ConvexPaginatedLoadResult into a live paginated subscription. */
+export function decodeConvexPaginatedLoad(encoded: {
+  refName: string
+  args: Record<string, unknown>
+  initialNumItems: number
+  page: unknown[]
+  isDone: boolean
+}): ConvexPaginatedQueryResult<PaginatedQueryReference> {
+  const ref = makeFunctionReference<"query">(encoded.refName) as PaginatedQueryReference
+  return createDetachedPaginatedQuery(ref, encoded.args, encoded.initialNumItems, {
+    page: encoded.page,
+    isDone: encoded.isDone,
+  })
 }
@@ -0,0 +1,123 @@
+/**
+ * fromConvexValidator() — use a mutation's Convex `args` validator as the
+ * convexForm() schema, instead of a hand-written Zod copy.
+ *
+ * Usage:
+ * ```ts
+ * // convex/tasks.ts
+ * export const taskArgs = { text: v.string() }
+ * export const create = mutation({ args: taskArgs, handler: ... })
+ *
+ * // +page.svelte
+ * const createTask = convexForm(fromConvexValidator(taskArgs), api.tasks.create)
+ * ```
+ *
+ * Checks types and required fields only — the server still validates the args.
+ * Fields the validator doesn't declare are ignored (submit buttons, `.for()` ids).
+ */
+import type { GenericValidator, Infer, ObjectType, PropertyValidators } from "convex/values"
+import type { StandardSchema } from "./form.svelte.js"
+
+type Issue = { message: string; path: Array<string | number> }
+
+/**
+ * Create a Standard Schema from a Convex validator or an `args` object of validators.
+ */
+export function fromConvexValidator<V extends PropertyValidators>(
+  validator: V,
+): StandardSchema<ObjectType<V>>
+export function fromConvexValidator<V extends GenericValidator>(
+  validator: V,
+): StandardSchema<Infer<V>>
+export function fromConvexValidator(
+  validator: GenericValidator | PropertyValidators,
+): StandardSchema<unknown> {
+  const root = isValidator(validator) ? validator : undefined
+  return {
+    "~standard": {
+      validate(value) {
+        const issues = root
+          ? check(root, value, [])
+          : checkFields(validator as PropertyValidators, value, [])
+        return issues.length > 0 ? { issues } : { value }
+      },
+    },
+  } as StandardSchema<unknown>
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function check(validator: GenericValidator, value: unknown, path: Issue["path"]): Issue[] {
+  const fail = (message: string): Issue[] => [{ message, path }]
+  if (value === undefined) {
+    return validator.isOptional === "optional" || validator.kind === "any" ? [] : fail("Required")
+  }
+
+  switch (validator.kind) {
+    case "string":
+      return typeof value === "string" ? [] : fail("Must be text")
+    case "id":
+      return typeof value === "string" && value !== "" ? [] : fail("Must be an ID")
+    case "float64":
+      return typeof value === "number" && !Number.isNaN(value) ? [] : fail("Must be a number")
+    case "int64":
+      return typeof value === "bigint" || Number.isInteger(value)
+        ? []
+        : fail("Must be a whole number")
+    case "boolean":
+      return typeof value === "boolean" ? [] : fail("Must be true or false")
+    case "null":
+      return value === null ? [] : fail("Must be empty")
+    case "bytes":
+      return value instanceof ArrayBuffer ? [] : fail("Must be binary data")
+    case "any":
+      return []
+    case "literal":
+      return value === validator.value ? [] : fail(`Must be ${JSON.stringify(validator.value)}`)
+    case "array":
+      if (!Array.isArray(value)) return fail("Must be a list")
+      return value.flatMap((item, i) => check(validator.element, item, [...path, i]))
+    case "object":
+      return checkFields(validator.fields, value, path)
+    case "record":
+      if (!isPlainObject(value)) return fail("Must be an object")
+      return Object.entries(value).flatMap(([key, item]) =>
+        check(validator.value, item, [...path, key]),
+      )
+    case "union": {
+      const members = validator.members as GenericValidator[]
+      if (members.every((member) => member.kind === "literal")) {
+        const allowed = members.map((member) => JSON.stringify(member.value))
+        return members.some((member) => member.value === value)
+          ? []
+          : fail(`Must be one of ${allowed.join(", ")}`)
+      }
+      // Report the closest member: one whose shape matched (issues only below `path`),
+      // then the one with the fewest issues
+      const rank = (issues: Issue[]) =>
+        (issues.some((issue) => issue.path.length === path.length) ? 1000 : 0) + issues.length
+      let closest: Issue[] | undefined
+      for (const member of members) {
+        const issues = check(member, value, path)
+        if (issues.length === 0) return []
+        if (!closest || rank(issues) < rank(closest)) closest = issues
+      }
+      return closest ?? fail("Invalid value")
+    }
+  }
+}
+
+function checkFields(fields: PropertyValidators, value: unknown, path: Issue["path"]): Issue[] {
+  if (!isPlainObject(value)) return [{ message: "Must be an object", path }]
+  return Object.entries(fields).flatMap(([key, field]) => check(field, value[key], [...path, key]))
+}
+
+function isValidator(value: unknown): value is GenericValidator {
+  return isPlainObject(value) && value.isConvexValidator === true
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}